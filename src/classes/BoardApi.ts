@@ -4,25 +4,100 @@ import {
   keyToSquareIndex,
   squareIndexToKey,
   fullRerender,
+  cgRoleToNichessRole,
+  nichessRoleToCgRole,
+  playAction,
+  isActionLegal,
+  historyMoveToString,
+  historyMoveToAttackEvent,
+  gameResultByRules,
+  kingThreats,
+  getThreats,
+  previewAttack,
+  possibleActions,
+  controlHeatmap,
+  playerThreats,
+  analysisShapes,
+  parseMoveString,
 } from '@/helper/Board';
-import { defaultBoardConfig } from '@/helper/DefaultConfig';
-import type { BrushColor, DrawShape } from '@/typings/BoardAPI';
+import { defaultBoardConfig, initialPos } from '@/helper/DefaultConfig';
+import {
+  GameRecordParseError,
+  gameResultToRecordResult,
+  parseGameRecord,
+  recordResultToGameResult,
+  serializeGameRecord,
+} from '@/utils/GameRecord';
+import {
+  InvalidPositionError,
+  maxHealthPoints,
+  parsePosition,
+  serializePosition,
+  validatePosition,
+} from '@/utils/Position';
+import { roleToPieceType } from '@/utils/Roles';
+import { countMaterial, killedPieces } from '@/utils/Material';
+import { AlphaBetaEngine } from '@/utils/AlphaBetaEngine';
+import type {
+  BrushColor,
+  CapturedPieces,
+  DrawShape,
+  MaterialCount,
+  MaterialDifference,
+  MaterialWeights,
+} from '@/typings/BoardAPI';
 import type BoardConfig from '@/typings/BoardConfig';
+import type {
+  Analysis,
+  AnalysisOptions,
+  EngineAction,
+  EngineResult,
+  EngineSearchOptions,
+  HintOptions,
+  NichessEngine,
+} from '@/typings/Engine';
+import type { GameRecordHeaders } from '@/typings/GameRecord';
+import type {
+  BoardSquare,
+  NichessPosition,
+  NichessPositionPiece,
+} from '@/typings/Position';
 import type {
   BoardState,
+  ControlHeatmapMode,
   Emits,
+  GameResult,
+  HistoryMove,
+  KingThreat,
   Move,
   MoveEvent,
+  PieceColor,
+  PossibleAction,
   Promotion,
   Props,
+  Threat,
+  ThreatCount,
 } from '@/typings/Chessboard';
-import type { PieceSymbol, Color as ShortColor, Square } from 'chess.js';
+import type { Square } from 'chess.js';
 import type { Api } from 'nichessground/api';
 import { Chessground } from 'nichessground/chessground';
-import type { Color, Key, MoveMetadata } from 'nichessground/types';
+import type {
+  Color,
+  Key,
+  MoveMetadata,
+  SquareClasses,
+} from 'nichessground/types';
 import { nextTick } from 'vue';
 
-import { Api as NichessApi, Player, PlayerAction, PieceType, Piece } from 'nichess';
+import {
+  Api as NichessApi,
+  NUM_ROWS,
+  NUM_SQUARES,
+  Player,
+  PieceType,
+  Piece,
+  pieceTypeToAbilityPoints,
+} from 'nichess';
 
 /**
  * class for modifying and reading data from the board
@@ -33,6 +108,29 @@ export class BoardApi {
   private boardState: BoardState;
   private props: Props;
   private emit: Emits;
+  private history: HistoryMove[] = [];
+  private undoneHistory: HistoryMove[] = []; // undone moves, most recently undone last
+  private headers: GameRecordHeaders = {};
+  private gameResult: GameResult | undefined; // results decided by the players, see getGameResult
+  private aborted = false;
+  private gameOverEmitted = false; // gameOver is emitted once per result
+  private drawOffer: PieceColor | undefined; // the color that offered a draw
+  private damagePreview = true; // config.damagePreview
+  private hintsEnabled = true; // config.hints
+  private hintsUsed: Record<PieceColor, number> = { white: 0, black: 0 };
+  private hintEngine: NichessEngine | undefined; // see setHintEngine, created on the first hint without one
+  private hintHighlights: SquareClasses = new Map();
+  private hintArrow: Threat | undefined;
+  private previewedAction: string | undefined; // the action shown by the damage preview, eg. 'd4d5'
+  private userHighlights: SquareClasses = new Map(); // config.highlight.custom
+  private actionHighlights: SquareClasses = new Map(); // ability targets of the selected piece
+  private heatmapHighlights: SquareClasses = new Map(); // see showControlHeatmap
+  private engine: NichessEngine | undefined;
+  private engineColor: PieceColor = 'black';
+  private engineOptions: EngineSearchOptions = {};
+  private engineRequest = 0; // replies to earlier requests are stale
+  private engineSearch: Promise<unknown> = Promise.resolve(); // the latest go() of an engine
+  private analysisArrows: Threat[] = []; // see startAnalysis
   constructor(
     boardElement: HTMLElement,
     boardState: BoardState,
@@ -44,6 +142,23 @@ export class BoardApi {
     this.emit = emit;
     this.game = new NichessApi();
     this.board = Chessground(boardElement);
+    this.engine = props.engine;
+    this.engineColor =
+      props.engineColor ?? (props.playerColor === 'black' ? 'white' : 'black');
+    this.engineOptions = props.engineOptions ?? {};
+    boardElement.addEventListener('mousemove', (event) =>
+      this.previewDamage(event)
+    );
+    boardElement.addEventListener('mouseleave', () =>
+      this.clearDamagePreview()
+    );
+    // nichessground selects and deselects pieces in its own mousedown and touchstart handlers,
+    // which run before these
+    for (const type of ['mousedown', 'touchstart']) {
+      boardElement.addEventListener(type, () => this.highlightActions(), {
+        passive: true,
+      });
+    }
     this.resetBoard();
   }
 
@@ -53,9 +168,19 @@ export class BoardApi {
 
   /**
    * syncs chess.js state with the board
+   * @param positionChanged - true after an action, undo, redo or a loaded position, check is only
+   * emitted then
    * @private
    */
-  private updateGameState({ updateFen = true } = {}): void {
+  private updateGameState({
+    updateFen = true,
+    positionChanged = false,
+  } = {}): void {
+    const kingThreats =
+      this.board.state.movable.free || this.getIsGameOver()
+        ? []
+        : this.getKingThreats(this.getTurnColor());
+
     if (!this.boardState.historyViewerState.isEnabled) {
       if (updateFen) {
         this.board.set({ fen: this.game.boardToString() });
@@ -66,28 +191,425 @@ export class BoardApi {
       if (this.board.state.movable.free) {
         this.board.state.movable.color = 'both';
         this.board.state.movable.dests = new Map();
+      } else if (this.isGameLocked()) {
+        this.board.state.movable.color = undefined;
       } else {
+        // against an engine the player keeps the other color, also to premove
         this.board.state.movable.color =
-          this.props.playerColor || this.board.state.turnColor;
+          this.props.playerColor ||
+          (this.engine && !this.boardState.analysisOptions
+            ? this.engineColor === 'white'
+              ? 'black'
+              : 'white'
+            : this.board.state.turnColor);
         this.board.state.movable.dests = possibleMoves(this.game);
       }
+
+      // highlighted with config.highlight.check
+      this.board.state.check = kingThreats[0]?.target.square;
+
+      if (this.boardState.showThreats) {
+        this.renderAutoShapes();
+      }
+      if (this.previewedAction) {
+        this.clearDamagePreview();
+      }
+      this.clearHint();
+      this.highlightActions();
+      if (this.boardState.controlHeatmap) {
+        this.heatmapHighlights = controlHeatmap(
+          this.game,
+          this.boardState.controlHeatmap
+        );
+        this.renderCustomHighlights();
+      }
     }
 
-    this.emitEvents();
+    this.boardState.revision++;
+    this.emitEvents(kingThreats, positionChanged);
+    this.requestEngineAction();
+  }
+
+  /**
+   * asks the engine for an action when it is its turn and plays it through move(), or in analysis mode
+   * to analyse the displayed position. A reply that arrives after the game state changed again is dropped.
+   * A failing engine and an illegal action are emitted as engineError
+   * @private
+   */
+  private requestEngineAction(): void {
+    this.askEngine().catch((error) =>
+      this.emit(
+        'engineError',
+        error instanceof Error ? error : new Error(String(error))
+      )
+    );
+  }
+
+  /**
+   * the request of requestEngineAction, rejects when the engine fails or its action is illegal
+   * @private
+   */
+  private async askEngine(): Promise<void> {
+    const request = ++this.engineRequest;
+    const engine = this.engine;
+    if (engine == null) return;
+    engine.stop();
+    // the stopped search still belongs to the position it started on
+    await this.engineSearch;
+    if (request !== this.engineRequest) return;
+    if (this.boardState.analysisOptions) {
+      await this.analyse(engine, request, this.boardState.analysisOptions);
+      return;
+    }
+    if (
+      this.board.state.movable.free ||
+      this.isGameLocked() ||
+      this.getTurnColor() !== this.engineColor
+    ) {
+      return;
+    }
+
+    await engine.setPosition(this.getFen());
+    if (request !== this.engineRequest) return;
+    const result = await this.search(engine, this.engineOptions);
+    if (request !== this.engineRequest || result.bestAction == null) return;
+    if (!this.move(result.bestAction)) {
+      const { from, to } = result.bestAction;
+      throw new Error(`Illegal engine action "${from}${to}"`);
+    }
+  }
+
+  /**
+   * searches the displayed position one ply deeper at a time, updating the analysis and its arrows
+   * after every depth until the maximum depth, a search limit or a new request
+   * @private
+   */
+  private async analyse(
+    engine: NichessEngine,
+    request: number,
+    { depth: maxDepth = 20, ...options }: AnalysisOptions
+  ): Promise<void> {
+    const viewedPly = this.getViewedPly();
+    const fen =
+      viewedPly === undefined ? this.getFen() : this.history[viewedPly].before;
+    const turn = parsePosition(fen).turn;
+    this.boardState.analysis = undefined;
+    this.analysisArrows = [];
+    this.renderAutoShapes();
+
+    await engine.setPosition(fen);
+    for (let depth = 1; depth <= maxDepth; depth++) {
+      if (request !== this.engineRequest) return;
+      const result = await this.search(engine, { ...options, depth });
+      if (request !== this.engineRequest) return;
+      const lines = (result.lines ?? [result]).map((line) => ({
+        score: turn === 'white' ? line.score : -line.score,
+        pv: line.pv,
+      }));
+      this.boardState.analysis = {
+        fen: fen,
+        depth: result.depth ?? depth,
+        lines: lines,
+      };
+      this.analysisArrows = analysisShapes(lines);
+      this.renderAutoShapes();
+      if (result.bestAction == null || (result.depth ?? depth) < depth) return;
+    }
+  }
+
+  /**
+   * starts a search of the engine, which askEngine waits for before the next one
+   * @private
+   */
+  private search(
+    engine: NichessEngine,
+    options: EngineSearchOptions
+  ): Promise<EngineResult> {
+    const search = engine.go(options);
+    this.engineSearch = search.catch(() => undefined);
+    return search;
+  }
+
+  /**
+   * draws the threat overlay of the current position, the analysis arrows and the given shape
+   * @private
+   */
+  private renderAutoShapes(extraShape?: Threat): void {
+    this.board.setAutoShapes([
+      ...(this.boardState.showThreats &&
+      !this.boardState.historyViewerState.isEnabled
+        ? getThreats(this.game)
+        : []),
+      ...this.analysisArrows,
+      ...(this.hintArrow ? [this.hintArrow] : []),
+      ...(extraShape ? [extraShape] : []),
+    ]);
   }
 
   /**
    * emits neccessary events
    * @private
    */
-  private emitEvents(): void {
-    if (this.game.isGameOver()) {
-      if (this.game.draw()) {
-        this.emit('draw');
-      } else {
-        this.emit('checkmate', this.board.state.turnColor);
+  private emitEvents(
+    kingThreats: KingThreat[],
+    positionChanged: boolean
+  ): void {
+    // positions set up in free mode are work in progress, eg. in the board editor
+    if (this.board.state.movable.free) return;
+    const result = this.getGameResult();
+    if (result) {
+      if (!this.gameOverEmitted) {
+        this.gameOverEmitted = true;
+        this.emit('gameOver', result);
+      }
+      return;
+    }
+    this.gameOverEmitted = false;
+    if (positionChanged && kingThreats.length > 0) {
+      this.emit('check', { color: this.getTurnColor(), threats: kingThreats });
+    }
+  }
+
+  /**
+   * ends the game with a result decided by the players, eg. a resignation
+   * @private
+   */
+  private endGame(result: GameResult): void {
+    this.gameResult = result;
+    this.drawOffer = undefined;
+    this.forbidMoves();
+    this.board.cancelPremove();
+    this.gameOverEmitted = true;
+    this.emit('gameOver', { ...result });
+  }
+
+  /**
+   * shows the outcome of the attack under the mouse for the selected piece, triggered by mousemove.
+   * The target shows its health points after the hit, an arrow means the attacker moves onto the
+   * target's square and a circle that it stays in place. The label reads 'kills' for a killing attack.
+   * @private
+   */
+  private previewDamage(event: MouseEvent): void {
+    if (
+      !this.damagePreview ||
+      this.boardState.historyViewerState.isEnabled ||
+      this.board.state.movable.free
+    ) {
+      return;
+    }
+    const selected = this.board.state.selected;
+    const hovered = this.board.getKeyAtDomPos([event.clientX, event.clientY]);
+    const action = selected && hovered ? `${selected}${hovered}` : undefined;
+    if (action === this.previewedAction) return;
+
+    const attack =
+      selected && hovered && this.board.state.movable.color !== undefined
+        ? previewAttack(
+            this.game,
+            keyToSquareIndex(selected),
+            keyToSquareIndex(hovered)
+          )
+        : undefined;
+    if (this.previewedAction) this.clearDamagePreview();
+    if (attack == null) return;
+
+    this.previewedAction = action;
+    const target = this.board.state.pieces.get(attack.target.square);
+    if (target) {
+      this.board.setPieces(
+        new Map([
+          [
+            attack.target.square,
+            { ...target, healthPoints: attack.targetHealthAfter },
+          ],
+        ])
+      );
+    }
+    const label = {
+      text: attack.targetKilled ? 'kills' : `${attack.targetHealthAfter} HP`,
+    };
+    const previewShape: Threat = attack.attackerMoved
+      ? {
+          orig: attack.attacker.square,
+          dest: attack.target.square,
+          brush: 'paleRed',
+          label,
+        }
+      : { orig: attack.target.square, brush: 'paleRed', label };
+    this.renderAutoShapes(previewShape);
+  }
+
+  /**
+   * marks the ability targets of the selected piece with the ability-dest class, and in-place when the
+   * attacker would stay on its square. For a premove the occupied targets get ability-premove-dest.
+   * Plain moves keep nichessground's move-dest and premove-dest classes
+   * @private
+   */
+  private highlightActions(): void {
+    const highlights: SquareClasses = new Map();
+    const selected = this.board.state.selected;
+    const piece = selected && this.board.state.pieces.get(selected);
+    if (
+      selected &&
+      piece &&
+      !this.board.state.movable.free &&
+      !this.boardState.historyViewerState.isEnabled
+    ) {
+      if (piece.color === this.board.state.turnColor) {
+        if (this.board.state.movable.showDests) {
+          for (const action of possibleActions(this.game).get(selected) ?? []) {
+            if (action.kind !== 'ability') continue;
+            const attack = previewAttack(
+              this.game,
+              keyToSquareIndex(action.from),
+              keyToSquareIndex(action.to)
+            );
+            highlights.set(
+              action.to,
+              attack?.attackerMoved ? 'ability-dest' : 'ability-dest in-place'
+            );
+          }
+        }
+      } else if (this.board.state.premovable.showDests) {
+        for (const dest of this.board.state.premovable.dests ?? []) {
+          const target = this.board.state.pieces.get(dest);
+          if (target && target.color !== piece.color) {
+            highlights.set(dest, 'ability-premove-dest');
+          }
+        }
+      }
+    }
+
+    const unchanged =
+      highlights.size === this.actionHighlights.size &&
+      [...highlights].every(
+        ([key, classes]) => this.actionHighlights.get(key) === classes
+      );
+    if (unchanged) return;
+    this.actionHighlights = highlights;
+    this.renderCustomHighlights();
+  }
+
+  /**
+   * sets highlight.custom of the board to the classes of config.highlight.custom and of the API
+   * @private
+   */
+  private renderCustomHighlights(): void {
+    const custom: SquareClasses = new Map(this.userHighlights);
+    for (const highlights of [
+      this.heatmapHighlights,
+      this.hintHighlights,
+      this.actionHighlights,
+    ]) {
+      for (const [key, classes] of highlights) {
+        const otherClasses = custom.get(key);
+        custom.set(key, otherClasses ? `${otherClasses} ${classes}` : classes);
       }
     }
+    this.board.set({ highlight: { custom } });
+  }
+
+  /**
+   * removes the damage preview, restoring the pieces and the threat overlay
+   * @private
+   */
+  private clearDamagePreview(): void {
+    if (this.previewedAction == null) return;
+    this.previewedAction = undefined;
+    if (this.boardState.historyViewerState.isEnabled) return;
+    fullRerender(this.board, this.game);
+    this.renderAutoShapes();
+  }
+
+  /**
+   * removes the highlight and arrow of getHint
+   * @private
+   */
+  private clearHint(): void {
+    if (this.hintHighlights.size === 0 && this.hintArrow == null) return;
+    this.hintHighlights = new Map();
+    this.hintArrow = undefined;
+    this.renderCustomHighlights();
+    this.renderAutoShapes();
+  }
+
+  /**
+   * true if no more moves can be made, because the game is over or was aborted
+   * @private
+   */
+  private isGameLocked(): boolean {
+    return this.aborted || this.getIsGameOver();
+  }
+
+  /**
+   * clears the outcome of the game, eg. when a new position is loaded
+   * @private
+   */
+  private clearGameOutcome(): void {
+    this.gameResult = undefined;
+    this.gameOverEmitted = false;
+    this.aborted = false;
+    this.drawOffer = undefined;
+  }
+
+  /**
+   * emits attack, pieceKilled and kingDamaged for an ability, in that order
+   * @private
+   */
+  private emitAttackEvents(historyMove: HistoryMove): void {
+    const attack = historyMoveToAttackEvent(historyMove);
+    if (attack == null) return;
+    this.emit('attack', attack);
+    if (attack.targetKilled) {
+      this.emit('pieceKilled', attack);
+    }
+    if (attack.target.role === 'king') {
+      this.emit('kingDamaged', attack);
+    }
+  }
+
+  /**
+   * replaces the game with the given position, erasing the history
+   * @private
+   */
+  private loadPosition(position: NichessPosition): void {
+    const positionString = serializePosition(position);
+    this.board.state.lastMove = undefined;
+    this.game.boardFromString(positionString);
+    this.history = [];
+    this.undoneHistory = [];
+    this.hintsUsed = { white: 0, black: 0 };
+    this.clearGameOutcome();
+    // the result of a loaded record doesn't belong to the new position
+    delete this.headers.Result;
+    delete this.headers.Termination;
+    if (this.boardState.historyViewerState.isEnabled) {
+      this.board.set({ viewOnly: this.boardState.historyViewerState.viewOnly });
+    }
+    this.boardState.historyViewerState = { isEnabled: false };
+    this.updateGameState({ updateFen: false, positionChanged: true });
+    fullRerender(this.board, this.game);
+  }
+
+  /**
+   * returns the position after the given number of plies of the history, or the current position
+   * @private
+   */
+  private positionAtPly(ply?: number): NichessPosition {
+    const historyMove = ply == null ? undefined : this.history[ply];
+    return historyMove ? parsePosition(historyMove.before) : this.getPosition();
+  }
+
+  /**
+   * @throws InvalidPositionError if the position doesn't pass validatePosition
+   * @private
+   */
+  private validatedPosition(
+    position: string | NichessPosition
+  ): NichessPosition {
+    const problems = validatePosition(position);
+    if (problems.length > 0) throw new InvalidPositionError(problems);
+    return typeof position === 'string' ? parsePosition(position) : position;
   }
 
   /**
@@ -99,6 +621,8 @@ export class BoardApi {
     dest: Key,
     _: MoveMetadata
   ): Promise<void> {
+    // with free movement the game is synced from the board instead, see syncGameWithBoard
+    if (this.board.state.movable.free) return;
     const selectedPromotion: Promotion | undefined = undefined;
     this.move({
       from: orig,
@@ -107,6 +631,28 @@ export class BoardApi {
     });
   }
 
+  /**
+   * With free movement (the board editor) pieces are moved, dropped and deleted by nichessground
+   * without legality checks, so the game takes over whatever the board shows. Triggered by
+   * config.events.change
+   * @private
+   */
+  private syncGameWithBoard(): void {
+    if (!this.board.state.movable.free) return;
+    const squares: (NichessPositionPiece | null)[] = new Array(
+      NUM_SQUARES
+    ).fill(null);
+    for (const [key, piece] of this.board.state.pieces) {
+      const role = cgRoleToNichessRole(piece.role);
+      squares[keyToSquareIndex(key)] = {
+        role: role,
+        color: piece.color,
+        healthPoints: piece.healthPoints ?? maxHealthPoints(role),
+      };
+    }
+    this.loadPosition({ turn: this.getTurnColor(), squares });
+  }
+
   //
   //  PUBLIC API METHODS:
   //
@@ -116,11 +662,16 @@ export class BoardApi {
    */
   resetBoard(): void {
     this.game.reset();
+    this.history = [];
+    this.undoneHistory = [];
+    this.headers = {};
+    this.hintsUsed = { white: 0, black: 0 };
+    this.clearGameOutcome();
     fullRerender(this.board, this.game);
     this.setConfig(this.props.boardConfig as BoardConfig, true);
   }
 
-  // TODO: This just prevents GUI moves 
+  // TODO: This just prevents GUI moves
   public forbidMoves(): void {
     this.board.state.movable.color = undefined;
   }
@@ -131,19 +682,144 @@ export class BoardApi {
 
   public setCurrentPlayer(player: Player): void {
     this.game.setCurrentPlayer(player);
+    this.updateGameState({ updateFen: false });
   }
 
-  public isMoveLegal(move: any): boolean {
-    let srcIdx: number = keyToSquareIndex(move.from);
-    let dstIdx: number = keyToSquareIndex(move.to);
+  public isMoveLegal(move: { from: Key; to: Key }): boolean {
+    return isActionLegal(
+      this.game,
+      keyToSquareIndex(move.from),
+      keyToSquareIndex(move.to)
+    );
+  }
 
-    let legalActions: PlayerAction[] = this.game.legalActionsBySquare(srcIdx)
-    for(let i = 0; i < legalActions.length; i++) {
-      if(legalActions[i].srcIdx === srcIdx && legalActions[i].dstIdx === dstIdx) {
-        return true;
-      }
+  /**
+   * attaches an engine that plays the given color, it moves whenever that color is to move. Pass
+   * undefined to play without an engine again
+   *
+   * @param color - defaults to the opposite of the playerColor prop, or black
+   * @param options - the depth and movetime the engine searches with
+   */
+  setEngine(
+    engine: NichessEngine | undefined,
+    color?: PieceColor,
+    options: EngineSearchOptions = {}
+  ): void {
+    this.engine?.stop();
+    this.engine = engine;
+    this.engineColor =
+      color ?? (this.props.playerColor === 'black' ? 'white' : 'black');
+    this.engineOptions = options;
+    this.updateGameState({ updateFen: false });
+  }
+
+  /**
+   * runs the attached engine on the displayed position, including positions of the history viewer,
+   * and draws the first action of its best lines as arrows labelled with their score. The engine
+   * stops playing its color until stopAnalysis is called
+   *
+   * @param options - multiPv for the number of lines, depth for the maximum depth (20 by default) and
+   * the limits of every search, eg. movetime
+   */
+  startAnalysis(options: AnalysisOptions = {}): void {
+    this.boardState.analysisOptions = options;
+    this.updateGameState({ updateFen: false });
+  }
+
+  /**
+   * ends the analysis mode and removes its arrows
+   */
+  stopAnalysis(): void {
+    this.boardState.analysisOptions = undefined;
+    this.boardState.analysis = undefined;
+    this.analysisArrows = [];
+    this.renderAutoShapes();
+    this.updateGameState({ updateFen: false });
+  }
+
+  /**
+   * returns the latest result of the analysis mode, with scores from white's point of view
+   */
+  getAnalysis(): Analysis | undefined {
+    return this.boardState.analysis;
+  }
+
+  /**
+   * suggests an action for the side to move and counts it as a hint used by that side. Level 1
+   * highlights the piece to move with the hint class, level 2 also draws the arrow of the action.
+   * The suggestion comes from the attached engine, or while there is none or it is busy playing or
+   * analysing from the engine of setHintEngine. Without one a built-in AlphaBetaEngine searches at the
+   * beginner difficulty, on the main thread. The hint is removed by the next update of the board
+   *
+   * @param options - the level and the limits of the search, eg. movetime
+   * @returns the suggested action, or null if hints are disabled by config.hints, the game is over,
+   * the history viewer is open or the position changed during the search
+   */
+  async getHint({
+    level = 1,
+    ...options
+  }: HintOptions = {}): Promise<EngineAction | null> {
+    if (
+      !this.hintsEnabled ||
+      this.isGameLocked() ||
+      this.board.state.movable.free ||
+      this.boardState.historyViewerState.isEnabled
+    ) {
+      return null;
+    }
+    const color = this.getTurnColor();
+    const engineIsIdle =
+      this.engine != null &&
+      !this.boardState.analysisOptions &&
+      this.engineColor !== color;
+    const engine = engineIsIdle
+      ? (this.engine as NichessEngine)
+      : (this.hintEngine ??= new AlphaBetaEngine({ difficulty: 'beginner' }));
+
+    const revision = this.boardState.revision;
+    await engine.setPosition(this.getFen());
+    const result = await this.search(engine, options);
+    if (revision !== this.boardState.revision || result.bestAction == null) {
+      return null;
     }
-    return false;
+
+    this.hintsUsed[color]++;
+    this.hintHighlights = new Map([[result.bestAction.from, 'hint']]);
+    this.hintArrow =
+      level === 2
+        ? {
+            orig: result.bestAction.from,
+            dest: result.bestAction.to,
+            brush: 'green',
+          }
+        : undefined;
+    this.renderCustomHighlights();
+    this.renderAutoShapes();
+    return result.bestAction;
+  }
+
+  /**
+   * sets the engine getHint uses while the attached engine is missing or busy, eg. a WorkerEngine so
+   * that stronger hints don't block the page. Pass undefined for the built-in AlphaBetaEngine at the
+   * beginner difficulty again
+   */
+  setHintEngine(engine: NichessEngine | undefined): void {
+    this.hintEngine?.stop();
+    this.hintEngine = engine;
+  }
+
+  /**
+   * returns the number of hints each side used in this game, see getHint
+   */
+  getHintsUsed(): Record<PieceColor, number> {
+    return { ...this.hintsUsed };
+  }
+
+  /**
+   * returns the color the engine plays, or undefined without an engine
+   */
+  getEngineColor(): PieceColor | undefined {
+    return this.engine ? this.engineColor : undefined;
   }
 
   /**
@@ -154,62 +830,55 @@ export class BoardApi {
   }
 
   /**
-   * undo last move, if possible
+   * undo last move, if possible. A game ended by the players, eg. by a resignation, or aborted keeps
+   * its outcome and can't be undone, a result that follows from the position is recomputed
    */
   undoLastMove(): void {
+    if (this.gameResult || this.aborted) return;
+    const undoneMove = this.history.pop();
+    if (undoneMove == null) return;
     this.game.undoLastAction();
-    this.updateGameState({ updateFen: true });
-    const lastAction: PlayerAction | null = this.game.getLastAction();
-    if(lastAction != null) {
-      const srcKey: Key = squareIndexToKey(lastAction.srcIdx);
-      const dstKey: Key = squareIndexToKey(lastAction.dstIdx);
-      this.board.state.lastMove = [srcKey, dstKey];
-    } else {
-      this.board.state.lastMove = undefined;
-    }
-
-    return;
-    /*
-    const undoMove = this.game.undo();
-    if (undoMove == null) return;
+    this.undoneHistory.push(undoneMove);
+    this.drawOffer = undefined;
 
     // if we were viewing the previous move, this is now the current move, so disable viewer
     if (
       this.boardState.historyViewerState.isEnabled &&
-      this.boardState.historyViewerState.plyViewing ===
-        this.getCurrentPlyNumber()
+      this.boardState.historyViewerState.plyViewing >= this.history.length
     ) {
       this.stopViewingHistory();
     }
 
     // if we're not viewing history, update the board
     if (!this.boardState.historyViewerState.isEnabled) {
-      this.board.set({ fen: undoMove.before });
-      this.updateGameState({ updateFen: false });
+      fullRerender(this.board, this.game);
+      this.updateGameState({ updateFen: false, positionChanged: true });
       const lastMove = this.getLastMove();
       this.board.state.lastMove = lastMove
-        ? [lastMove?.from, lastMove?.to]
+        ? [lastMove.from, lastMove.to]
         : undefined;
     }
-   */
   }
 
   /**
-   * redo last move, if possible
+   * redo last move, if possible. Like undoLastMove it does nothing after a game ended by the players
+   * or aborted
    */
   redoLastMove(): void {
+    if (this.undoneHistory.length === 0 || this.gameResult || this.aborted) {
+      return;
+    }
     const success: boolean = this.game.redoLastAction();
-    if(!success) {
+    if (!success) {
       return;
     }
-    this.updateGameState({ updateFen: true });
-    const lastAction: PlayerAction | null = this.game.getLastAction();
-    if(lastAction != null) {
-      const srcKey: Key = squareIndexToKey(lastAction.srcIdx);
-      const dstKey: Key = squareIndexToKey(lastAction.dstIdx);
-      this.board.state.lastMove = [srcKey, dstKey];
+    const redoneMove = this.undoneHistory.pop() as HistoryMove;
+    this.history.push(redoneMove);
+    if (!this.boardState.historyViewerState.isEnabled) {
+      fullRerender(this.board, this.game);
+      this.updateGameState({ updateFen: false, positionChanged: true });
+      this.board.state.lastMove = [redoneMove.from, redoneMove.to];
     }
-    return;
   }
 
   /**
@@ -222,19 +891,42 @@ export class BoardApi {
   /**
    * draws arrows and circles on the board for possible moves/captures
    */
-  /*
   drawMoves(): void {
     this.boardState.showThreats = true;
-    this.board.setShapes(getThreats(this.game.moves({ verbose: true })));
+    this.renderAutoShapes();
   }
- */
 
   /**
    * removes arrows and circles from the board for possible moves/captures
    */
   hideMoves(): void {
     this.boardState.showThreats = false;
-    this.board.setAutoShapes([]);
+    this.renderAutoShapes();
+  }
+
+  /**
+   * colors the squares by how both sides can act on them next turn, the heatmap is updated after
+   * every action until hideControlHeatmap is called.
+   * Squares get the classes heat-white-1 to heat-white-3 and heat-black-1 to heat-black-3.
+   *
+   * @param mode - 'control' for the number of pieces that can act on a square, 'damage' for the total
+   * damage they could deal there and 'contested' for the piece count on squares both sides can act on
+   */
+  showControlHeatmap(mode: ControlHeatmapMode = 'control'): void {
+    this.boardState.controlHeatmap = mode;
+    this.heatmapHighlights = this.boardState.historyViewerState.isEnabled
+      ? new Map()
+      : controlHeatmap(this.game, mode);
+    this.renderCustomHighlights();
+  }
+
+  /**
+   * removes the heatmap of showControlHeatmap
+   */
+  hideControlHeatmap(): void {
+    this.boardState.controlHeatmap = undefined;
+    this.heatmapHighlights = new Map();
+    this.renderCustomHighlights();
   }
 
   /**
@@ -253,7 +945,6 @@ export class BoardApi {
   /**
    * toggle drawing of arrows and circles on the board for possible moves/captures
    */
-  /*
   toggleMoves(): void {
     if (this.boardState.showThreats) {
       this.hideMoves();
@@ -261,42 +952,44 @@ export class BoardApi {
       this.drawMoves();
     }
   }
- */
 
   /**
    * make a move programmatically on the board
-   * @param move either a string in Standard Algebraic Notation (SAN), eg. 'e4', 'exd5', 'O-O', 'Nf3' or 'e8=Q'
-   * or an object of shape { from: string; to: string; promotion?: string; }, eg. { from: 'g8', to: 'f6' } or
-   * { from: 'e7', to: 'e8', promotion: 'q'}
+   * @param move either a string in the compact form returned by getHistory(), eg. 'e2e4' or 'd1xd7',
+   * or an object of shape { from: string; to: string; }, eg. { from: 'g8', to: 'f6' }
    * @returns true if the move was made, false if the move was illegal
    */
   move(move: string | Move, emitEvent = true): boolean {
-    if (typeof move === 'object') {
-      const srcIdx: number = keyToSquareIndex(move.from);
-      const dstIdx: number = keyToSquareIndex(move.to);
-      const dstPiece: Piece = this.game.pieceBySquare(dstIdx);
-      const attack: boolean = dstPiece.type !== PieceType.NO_PIECE;
-      this.game.makeAction(srcIdx, dstIdx);
-      this.board.move(move.from, move.to);
+    if (this.isGameLocked()) return false;
+    const action = typeof move === 'object' ? move : parseMoveString(move);
+    if (action == null || !this.isMoveLegal(action)) return false;
+
+    const srcIdx: number = keyToSquareIndex(action.from);
+    const dstIdx: number = keyToSquareIndex(action.to);
+    const historyMove = playAction(this.game, srcIdx, dstIdx);
+    this.history.push(historyMove);
+    this.undoneHistory = [];
+    this.drawOffer = undefined;
+    if (!this.boardState.historyViewerState.isEnabled) {
+      this.board.move(action.from, action.to);
       fullRerender(this.board, this.game);
-      if (emitEvent) {
-        const moveEvent: MoveEvent = {
-          from: move.from,
-          to: move.to,
-          promotion: move.promotion,
-          attack: attack
-        };
-        this.emit('move', moveEvent);
-      }
-      this.updateGameState({ updateFen: false });
-      nextTick(this.board.playPremove);
-      if (this.game.isGameOver()) {
-        this.forbidMoves();
-      }
-      return true;
-    } else {
-      return false;
     }
+    if (emitEvent) {
+      const moveEvent: MoveEvent = {
+        from: action.from,
+        to: action.to,
+        promotion: typeof move === 'object' ? move.promotion : undefined,
+        attack: historyMove.kind === 'ability',
+      };
+      this.emit('move', moveEvent);
+      this.emitAttackEvents(historyMove);
+    }
+    this.updateGameState({ updateFen: false, positionChanged: true });
+    nextTick(this.board.playPremove);
+    if (this.getIsGameOver()) {
+      this.forbidMoves();
+    }
+    return true;
   }
 
   /**
@@ -308,11 +1001,11 @@ export class BoardApi {
   }
 
   /**
-   * returns all possible moves for the current position
-   *
+   * returns the legal actions of the side to move by source square, with their kind
+   * @example Map { 'd4' => [{ from: 'd4', to: 'd5', kind: 'ability' }, { from: 'd4', to: 'c4', kind: 'move' }] }
    */
-  getPossibleMoves(): Map<Key, Key[]> | undefined {
-    return possibleMoves(this.game);
+  getPossibleMoves(): Map<Key, PossibleAction[]> {
+    return possibleActions(this.game);
   }
 
   /**
@@ -337,62 +1030,272 @@ export class BoardApi {
   }
 
   /**
-   * returns the latest move made on the board
+   * returns the number of living pieces and their remaining health points for both sides
+   *
+   * @param weights - multipliers for the health points of each role in `material`, eg. `{ king: 0 }`
+   * @param ply - count the position after this many plies of the history instead of the current one
+   */
+  getMaterialCount({
+    weights,
+    ply,
+  }: { weights?: MaterialWeights; ply?: number } = {}): MaterialCount {
+    return countMaterial(this.positionAtPly(ply), weights);
+  }
+
+  /**
+   * returns the weighted material of both sides and the difference between them, positive if white
+   * is ahead
+   *
+   * @param options - weights and ply as in getMaterialCount, without weights the material is the
+   * remaining health points
+   */
+  getMaterialDiff(
+    options: { weights?: MaterialWeights; ply?: number } = {}
+  ): MaterialDifference {
+    const { white, black } = this.getMaterialCount(options);
+    return {
+      materialWhite: white.material,
+      materialBlack: black.material,
+      materialDiff: white.material - black.material,
+    };
+  }
+
+  /**
+   * returns the pieces killed so far by the color that killed them, with the ply they died on
+   *
+   * @param ply - only include the first ply plies of the history
+   * @example { white: [{ role: 'pawn', color: 'black', square: 'd5', ply: 3 }], black: [] }
    */
-  getLastMove(): MoveEvent | undefined {
-    // TODO
-    return undefined;
-    //return this.game.history({ verbose: true }).at(-1);
+  getKilledPieces({ ply }: { ply?: number } = {}): CapturedPieces {
+    return killedPieces(this.history.slice(0, ply));
+  }
+
+  /**
+   * returns a copy of the latest move made on the board
+   */
+  getLastMove(): HistoryMove | undefined {
+    const lastMove = this.history.at(-1);
+    return lastMove ? { ...lastMove } : undefined;
   }
 
   /**
    * Retrieves the move history.
    *
-   * @param verbose - passing true will add more info
-   * @example Verbose: [{"color": "w", "from": "e2", "to": "e4", "flags": "b", "piece": "p", "san": "e4"}],  without verbose flag: [ "e7", "e5" ]
+   * @param verbose - passing true will return copies of the full history records
+   * @example Verbose: [{ "from": "e2", "to": "e4", "pieceType": PieceType.P1_PAWN, "color": "white", "kind": "move", ... }],
+   * without verbose flag: [ "e2e4", "e7e5", "d1xd7" ]
    */
   getHistory(): string[];
   getHistory(verbose: false): string[];
-  getHistory(verbose: true): MoveEvent[];
-  getHistory(verbose = false): MoveEvent[] | string[] {
-    // TODO
-    return [];
-    //return this.game.history({ verbose: verbose });
+  getHistory(verbose: true): HistoryMove[];
+  getHistory(verbose = false): HistoryMove[] | string[] {
+    return verbose
+      ? this.history.map((move) => ({ ...move }))
+      : this.history.map((move) => historyMoveToString(move));
   }
 
   /**
-   * Returns the FEN string for the current position.
+   * Returns the position string for the current position.
    */
   getFen(): string {
-    return this.game.boardToString();
+    return serializePosition(this.getPosition());
+  }
+
+  /**
+   * Returns the current position: the side to move and the piece, color and health points on every square.
+   */
+  getPosition(): NichessPosition {
+    return parsePosition(this.game.boardToString());
   }
 
   /**
-   * Returns the board position as a 2D array.
+   * Returns the board position as a 2D array of 8 ranks from rank 8 to rank 1, each from file a to file h.
+   * Empty squares are null.
    */
-  getBoardPosition(): ({
-    square: Square;
-    type: PieceSymbol;
-    color: ShortColor;
-  } | null)[][] {
-    // TODO
-    return [];
-    //return this.game.board();
+  getBoardPosition(): (BoardSquare | null)[][] {
+    const { squares } = this.getPosition();
+    const ranks: (BoardSquare | null)[][] = [];
+    for (let rank = NUM_ROWS - 1; rank >= 0; rank--) {
+      ranks.push(
+        squares
+          .slice(rank * NUM_ROWS, (rank + 1) * NUM_ROWS)
+          .map((piece, file) =>
+            piece == null
+              ? null
+              : {
+                  square: squareIndexToKey(rank * NUM_ROWS + file),
+                  ...piece,
+                  abilityPoints: pieceTypeToAbilityPoints(
+                    roleToPieceType(piece.role, piece.color)
+                  ),
+                }
+          )
+      );
+    }
+    return ranks;
   }
 
   /**
-   * returns the PGN string for the current position.
+   * returns the game record of the current game, see utils/GameRecord for the format. The Result and
+   * Termination headers follow the current state of the game, see getGameResult.
    */
   getPgn(): string {
-    // TODO: Nichess doesn't have pgn
-    return this.game.boardToString();
+    const startPosition = this.history[0]?.before ?? this.game.boardToString();
+    const result = this.getGameResult();
+    const resultHeaders = result
+      ? { Result: gameResultToRecordResult(result), Termination: result.reason }
+      : { Result: '*', Termination: this.aborted ? 'aborted' : undefined };
+    const hintHeaders = {
+      WhiteHints: this.hintsUsed.white ? `${this.hintsUsed.white}` : undefined,
+      BlackHints: this.hintsUsed.black ? `${this.hintsUsed.black}` : undefined,
+    };
+    return serializeGameRecord(
+      {
+        ...this.headers,
+        ...resultHeaders,
+        ...hintHeaders,
+        Position: startPosition,
+      },
+      this.history
+    );
   }
 
   /**
    * returns true of false depending on if the game is over
    */
   getIsGameOver(): boolean {
-    return this.game.isGameOver();
+    return this.getGameResult() !== undefined;
+  }
+
+  /**
+   * returns the result of the game, or undefined if the game isn't over
+   * @example { winner: 'white', loser: 'black', reason: 'kingKilled' }
+   */
+  getGameResult(): GameResult | undefined {
+    const result = this.gameResult ?? gameResultByRules(this.game);
+    return result ? { ...result } : undefined;
+  }
+
+  /**
+   * returns the legal actions, attackable enemy pieces, attacks on the enemy king and total potential
+   * damage of both sides, each counted as if it were that side's turn
+   *
+   * @param ply - count for the position before the action at this index of the history instead of the
+   * current position
+   */
+  getThreatCount({ ply }: { ply?: number } = {}): ThreatCount {
+    const fen = serializePosition(this.positionAtPly(ply));
+    const game = new NichessApi();
+    game.boardFromString(fen);
+    const white = playerThreats(game, Player.PLAYER_1);
+    const black = playerThreats(game, Player.PLAYER_2);
+    return {
+      checksWhite: white.checks,
+      checksBlack: black.checks,
+      damageWhite: white.damage,
+      damageBlack: black.damage,
+      fen: fen,
+      history: this.getHistory().slice(0, ply),
+      legalWhite: white.legal,
+      legalBlack: black.legal,
+      threatWhite: white.threats,
+      threatBlack: black.threats,
+      turn: game.currentPlayer() === Player.PLAYER_1 ? 'white' : 'black',
+    };
+  }
+
+  /**
+   * returns the attacks the opponent could make on the king of the given color on their next turn,
+   * including the damage each attacker would deal
+   * @example [{ attacker: { square: 'd4', role: 'warrior', color: 'white' }, target: { square: 'd5',
+   * role: 'king', color: 'black' }, damage: 10, targetHealthAfter: 0, targetKilled: true, ... }]
+   */
+  getKingThreats(color: PieceColor): KingThreat[] {
+    return kingThreats(this.game, color);
+  }
+
+  /**
+   * ends the game as lost on time by the given color, for use with a clock kept outside the board
+   */
+  claimTimeout(loser: PieceColor): void {
+    if (this.isGameLocked()) return;
+    this.endGame({
+      winner: loser === 'white' ? 'black' : 'white',
+      loser: loser,
+      reason: 'timeout',
+    });
+  }
+
+  /**
+   * ends the game as lost by resignation of the given color
+   */
+  resign(color: PieceColor): void {
+    if (this.isGameLocked()) return;
+    this.endGame({
+      winner: color === 'white' ? 'black' : 'white',
+      loser: color,
+      reason: 'resignation',
+    });
+  }
+
+  /**
+   * offers a draw to the opponent of the given color, the offer stands until it is accepted,
+   * declined or the next move is made
+   * @returns false if the game is over or aborted
+   */
+  offerDraw(color: PieceColor): boolean {
+    if (this.isGameLocked()) return false;
+    this.drawOffer = color;
+    this.emit('drawOffered', color);
+    return true;
+  }
+
+  /**
+   * returns the color that offered the draw which is currently standing, or undefined if there is none
+   */
+  getDrawOffer(): PieceColor | undefined {
+    return this.drawOffer;
+  }
+
+  /**
+   * accepts the standing draw offer, ending the game in a draw by agreement
+   * @returns false if there is no draw offer to accept
+   */
+  acceptDraw(): boolean {
+    if (this.drawOffer == null || this.isGameLocked()) return false;
+    this.endGame({ winner: null, loser: null, reason: 'agreement' });
+    return true;
+  }
+
+  /**
+   * declines the standing draw offer
+   * @returns false if there is no draw offer to decline
+   */
+  declineDraw(): boolean {
+    if (this.drawOffer == null) return false;
+    const color = this.drawOffer;
+    this.drawOffer = undefined;
+    this.emit('drawDeclined', color);
+    return true;
+  }
+
+  /**
+   * aborts the game without a result, eg. when a player leaves before the game started
+   */
+  abort(): void {
+    if (this.isGameLocked()) return;
+    this.aborted = true;
+    this.drawOffer = undefined;
+    this.forbidMoves();
+    this.board.cancelPremove();
+    this.emit('gameAborted');
+  }
+
+  /**
+   * returns true if the game was aborted
+   */
+  getIsAborted(): boolean {
+    return this.aborted;
   }
 
   /**
@@ -414,48 +1317,37 @@ export class BoardApi {
  */
 
   /**
-   * loads a fen into the board
+   * loads a position into the board
    * Caution: this will erase the game history. To set position with history call loadPgn with a pgn instead
+   *
+   * @param fen - a position string, eg. '0|0-warrior-60,...,empty,...', or a position object
+   * @throws InvalidPositionError with the problems found by validatePosition, the board is left unchanged
+   * in that case
    */
-  setPosition(fen: string): void {
-    // TODO: Nichess doesn't use fen
-    this.board.state.lastMove = undefined;
-    this.game.boardFromString(fen);
-    this.boardState.historyViewerState = { isEnabled: false };
-    this.updateGameState({ updateFen: false });
-    fullRerender(this.board, this.game);
+  setPosition(fen: string | NichessPosition): void {
+    this.loadPosition(this.validatedPosition(fen));
   }
 
   /**
    * puts a piece on a given square on the board
    * returns true on success, else false
+   * Caution: this will erase the game history, like setPosition.
+   *
+   * @param square - the square as a key, eg. 'e4', or as a nichess square index [0, 63]
    */
-  putPiece(pieceType: PieceType, squareIndex: number, healthPoints: number): boolean {
-    const success = this.game.addPiece(pieceType, squareIndex, healthPoints);
-    if(success) {
-      fullRerender(this.board, this.game);
-      this.board.redrawAll();
-      return true;
-    }
-    return false;
-    /*
-    // @TODO using putPiece with the same piece and square twice is buggy in movable: false in chess.js state
-    if (this.board.state.movable.free) {
-      const current = this.board.state.pieces;
-      current.set(square, {
-        color: piece.color === 'w' ? 'white' : 'black',
-        role: chessJSPieceToLichessPiece[piece.type] as Role,
-      });
-      this.board.setPieces(current);
-      return true;
-    } else {
-      const result = this.game.put(piece, square);
-      if (result) {
-        this.updateGameState();
-      }
-      return result;
+  putPiece(
+    pieceType: PieceType,
+    square: Key | number,
+    healthPoints: number
+  ): boolean {
+    const squareIndex =
+      typeof square === 'number' ? square : keyToSquareIndex(square);
+    this.stopViewingHistory();
+    if (!this.game.addPiece(pieceType, squareIndex, healthPoints)) {
+      return false;
     }
-   */
+    this.loadPosition(this.getPosition());
+    return true;
   }
 
   getPiece(key: Key): Piece {
@@ -466,30 +1358,82 @@ export class BoardApi {
   }
 
   /**
-   * Removes a piece from the board.
-   * @param square - The square where the piece is located.
+   * Sets the health points of the piece on the given square.
+   * Caution: this will erase the game history, like setPosition.
+   * @returns true on success, false if the square is empty
+   * @throws InvalidPositionError if the health points aren't a whole number from 1 to the maximum of
+   * the piece's role, see maxHealthPoints. The board is left unchanged in that case
    */
-  removePiece(square: Square): void {
-    // TODO
-    return;
-    /*
-    const pieces = this.board.state.pieces;
-    pieces.delete(square);
-    this.game.remove(square);
+  setPieceHealthPoints(square: Key, healthPoints: number): boolean {
+    const position = this.getPosition();
+    const piece = position.squares[keyToSquareIndex(square)];
+    if (piece == null) return false;
+    piece.healthPoints = healthPoints;
+    // only this piece is checked, the rest of the position may still be work in progress
+    const problems = validatePosition(position).filter(
+      (problem) => problem.code === 'healthPoints' && problem.square === square
+    );
+    if (problems.length > 0) throw new InvalidPositionError(problems);
+    this.loadPosition(position);
+    return true;
+  }
+
+  /**
+   * starts dragging a new piece onto the board, eg. from a spare piece palette in a mousedown handler.
+   * Dropping it on a square puts it there when config.movable.free is enabled.
+   *
+   * @param piece - the piece to drag, health points default to the maximum of the role
+   * @param event - the mousedown or touchstart event that starts the drag
    */
+  dragNewPiece(
+    piece: Omit<NichessPositionPiece, 'healthPoints'> & {
+      healthPoints?: number;
+    },
+    event: MouseEvent | TouchEvent
+  ): void {
+    this.board.dragNewPiece(
+      {
+        role: nichessRoleToCgRole(piece.role),
+        color: piece.color,
+        healthPoints: piece.healthPoints ?? maxHealthPoints(piece.role),
+        abilityPoints: pieceTypeToAbilityPoints(
+          roleToPieceType(piece.role, piece.color)
+        ),
+      },
+      event
+    );
   }
 
   /**
-   * removes all pieces from the board
+   * Removes a piece from the board.
+   * Caution: this will erase the game history, like setPosition.
+   * @param square - The square where the piece is located.
+   * @returns true if a piece was removed, false if the square was empty
    */
-  clearBoard(): void {
-    // TODO
-    return;
-    /*
-    this.game.clear();
-    this.boardState.historyViewerState = { isEnabled: false };
-    this.updateGameState();
+  removePiece(square: Key): boolean {
+    const position = this.getPosition();
+    const squareIndex = keyToSquareIndex(square);
+    if (position.squares[squareIndex] == null) return false;
+    position.squares[squareIndex] = null;
+    this.loadPosition(position);
+    return true;
+  }
+
+  /**
+   * removes all pieces from the board, the side to move is kept.
+   * Caution: this will erase the game history, like setPosition. Without free movement the empty board
+   * ends the game, white has no king left so gameOver is emitted with black as the winner by kingKilled.
+   * Put the kings back with putPiece to continue, or edit the board with free movement, see
+   * NichessBoardEditor
+   * @returns true if the board was cleared
    */
+  clearBoard(): boolean {
+    const position = this.getPosition();
+    this.loadPosition({
+      turn: position.turn,
+      squares: position.squares.map(() => null),
+    });
+    return true;
   }
 
   /**
@@ -500,59 +1444,100 @@ export class BoardApi {
   }
 
   /**
-   * loads a pgn into the board
+   * loads a game record into the board, the moves of the record can be undone and redone afterwards.
+   * Without a Position header the game starts from the initial position.
    *
-   * @param pgn - the pgn to load
+   * @param pgn - the game record to load, see utils/GameRecord for the format
+   * @throws GameRecordParseError if the record can't be read or contains an illegal move, and
+   * InvalidPositionError if the Position header is invalid. The board is left unchanged in both cases
    */
   loadPgn(pgn: string): void {
-    // TODO
-    return;
-    /*
-    this.game.loadPgn(pgn);
-    this.boardState.historyViewerState = { isEnabled: false };
-    this.updateGameState();
+    const { headers, moves, result } = parseGameRecord(pgn);
+    const {
+      Position: startPosition = initialPos,
+      Termination: termination,
+      WhiteHints: whiteHints,
+      BlackHints: blackHints,
+      ...otherHeaders
+    } = headers;
+
+    // replay on a separate game first so an illegal move doesn't leave the board half loaded
+    const replay = new NichessApi();
+    replay.boardFromString(
+      serializePosition(this.validatedPosition(startPosition))
+    );
+    for (const move of moves) {
+      const srcIdx = keyToSquareIndex(move.from);
+      const dstIdx = keyToSquareIndex(move.to);
+      if (!isActionLegal(replay, srcIdx, dstIdx)) {
+        throw new GameRecordParseError(
+          `Illegal move "${move.from}${move.to}"`,
+          move.line,
+          move.column
+        );
+      }
+      replay.makeAction(srcIdx, dstIdx);
+    }
+
+    this.setPosition(startPosition);
+    for (const move of moves) {
+      this.history.push(
+        playAction(
+          this.game,
+          keyToSquareIndex(move.from),
+          keyToSquareIndex(move.to)
+        )
+      );
+    }
+    // the result is worked out by getPgn from the state of the game
+    delete otherHeaders.Result;
+    this.headers = otherHeaders;
+    this.hintsUsed = {
+      white: Number(whiteHints ?? 0) || 0,
+      black: Number(blackHints ?? 0) || 0,
+    };
+    // a finished record that doesn't end by the rules was decided by the players
+    if (gameResultByRules(this.game) == null) {
+      this.gameResult = recordResultToGameResult(result, termination);
+      this.aborted = result === '*' && termination === 'aborted';
+    }
+
+    fullRerender(this.board, this.game);
+    this.updateGameState({ updateFen: false, positionChanged: true });
+    if (this.isGameLocked()) {
+      this.forbidMoves();
+    }
 
     // show last move if there is one
     const lastMove = this.getLastMove();
     if (lastMove) {
       this.board.set({ lastMove: [lastMove.from, lastMove.to] });
     }
-   */
   }
 
   /**
-   * returns the header information of the current pgn, if no pgn is loaded, returns an empty object
+   * returns the header information of the current game record, if no record is loaded, returns an empty object.
+   * The result of the game isn't stored as a header, getPgn writes it from getGameResult
    * @example {
-   * "Event": "IBM Kasparov vs. Deep Blue Rematch",
-   * "Site": "New York, NY USA",
-   * "Date": "1997.05.11",
-   * "Round": "6",
-   * "White": "Deep Blue",
-   * "Black": "Kasparov, Garry",
-   * "Opening": "Caro-Kann: 4...Nd7",
-   * "ECO": "B17",
-   * "Result": "1-0"
+   * "Event": "Club championship",
+   * "Date": "2024.05.11",
+   * "White": "Alice",
+   * "Black": "Bob"
    * }
    */
-  getPgnInfo(): {
-    [key: string]: string | undefined;
-  } {
-    // TODO
-    return {};
-    //return this.game.header();
+  getPgnInfo(): GameRecordHeaders {
+    return { ...this.headers };
   }
 
   /**
-   * Sets a header in the PGN.
+   * Sets headers in the game record.
    *
-   * @param changes a record of key value pairs to change in the PGN, eg. `{ White: 'Deep Blue', Black: 'Kasparov, Garry' }`
+   * @param changes a record of key value pairs to change in the game record, eg. `{ White: 'Alice', Black: 'Bob' }`
+   * @returns all headers after the change
    */
-  setPgnInfo(changes: { [key: string]: string }): {
-    [key: string]: string | undefined;
-  } {
-    // TODO: Nichess doesn't have pgn
-    return { White: 'Deep Blue', Black: 'Kasparov, Garry' };
-    //return this.game.header(...Object.entries(changes).flat());
+  setPgnInfo(changes: { [key: string]: string }): GameRecordHeaders {
+    Object.assign(this.headers, changes);
+    return this.getPgnInfo();
   }
 
   /**
@@ -585,8 +1570,37 @@ export class BoardApi {
         : this.changeTurn.bind(this); // in case user provided config with { movable: { events: { after: undefined } } }
     }
 
-    const { fen, ...configWithoutFen } = config;
+    // Same for events.change, so that pieces moved, dropped or deleted freely in the board editor end up
+    // in the game before the user's function runs.
+    if (config.events && 'change' in config.events) {
+      const userChange = config.events.change;
+      config.events.change = (): void => {
+        this.syncGameWithBoard();
+        userChange?.();
+      };
+    }
+
+    const { fen, damagePreview, hints, ...configWithoutFen } = config;
+    if (damagePreview !== undefined) {
+      this.damagePreview = damagePreview;
+      if (!damagePreview) this.clearDamagePreview();
+    }
+    if (hints !== undefined) {
+      this.hintsEnabled = hints;
+      if (!hints) this.clearHint();
+    }
+    // custom highlights are combined with the ones of the API, see renderCustomHighlights
+    const hasCustomHighlights =
+      config.highlight !== undefined && 'custom' in config.highlight;
+    if (configWithoutFen.highlight) {
+      configWithoutFen.highlight = { ...configWithoutFen.highlight };
+      delete configWithoutFen.highlight.custom;
+    }
     this.board.set(configWithoutFen);
+    if (hasCustomHighlights) {
+      this.userHighlights = new Map(config.highlight?.custom);
+      this.renderCustomHighlights();
+    }
     if (fen) this.setPosition(fen);
     this.board.redrawAll();
   }
@@ -598,10 +1612,7 @@ export class BoardApi {
    * after white's first move, 2 is after black's first move and so on.
    */
   viewHistory(ply: number): void {
-    // TODO
-    return;
-    /*
-    const history = this.getHistory(true);
+    const history = this.history;
 
     // if given ply is invalid, terminate function
     if (ply < 0 || ply > history.length) return;
@@ -630,38 +1641,68 @@ export class BoardApi {
       }
 
       this.board.set({
-        fen: history[ply].before,
+        turnColor: history[ply].color,
         viewOnly: true,
         lastMove:
           ply > 0 ? [history[ply - 1].from, history[ply - 1].to] : undefined,
         selected: undefined,
       });
-
-      this.displayInCheck(
-        ply > 0 ? '+#'.includes(history[ply - 1].san.at(-1) as string) : false,
-        shortToLongColor(history[ply].color)
-      );
+      const viewedGame = new NichessApi();
+      viewedGame.boardFromString(history[ply].before);
+      // the check highlight shows the threatened king of the viewed position
+      this.board.state.check = kingThreats(
+        viewedGame,
+        history[ply].color
+      )[0]?.target.square;
+      fullRerender(this.board, viewedGame);
+      // the threats and hints belong to the current position, the threats come back when the viewer stops
+      this.clearHint();
+      this.renderAutoShapes();
+      if (this.heatmapHighlights.size > 0) {
+        this.heatmapHighlights = new Map();
+        this.renderCustomHighlights();
+      }
+      if (this.boardState.analysisOptions) {
+        this.requestEngineAction();
+      }
 
       this.board.cancelPremove();
     } else {
       // else ply is current position, so stop viewing history
       if (this.boardState.historyViewerState.isEnabled) {
-        const lastMove = history.at(-1) as MoveEvent;
+        const lastMove = history.at(-1);
 
         this.board.set({
-          fen: lastMove.after,
           viewOnly: this.boardState.historyViewerState.viewOnly,
-          lastMove: [lastMove.from, lastMove.to],
+          lastMove: lastMove ? [lastMove.from, lastMove.to] : undefined,
         });
 
         this.boardState.historyViewerState = { isEnabled: false };
+        fullRerender(this.board, this.game);
         this.updateGameState({ updateFen: false });
       }
     }
 
     // if animation was disabled, reenable it
     if (disableAnimation) this.board.set({ animation: { enabled: true } });
+  }
+
+  /**
+   * returns the ply shown by the history viewer, or undefined if the board shows the current position
+   */
+  getViewedPly(): number | undefined {
+    return this.boardState.historyViewerState.isEnabled
+      ? this.boardState.historyViewerState.plyViewing
+      : undefined;
+  }
+
+  /**
+   * returns a number that increases whenever the game state is updated, eg. after a move, undo or redo.
+   * Reading it together with getViewedPly in a computed or watcher makes that re-run whenever the
+   * board changes, eg. in components that show data of the game.
    */
+  getRevision(): number {
+    return this.boardState.revision;
   }
 
   /**
@@ -669,7 +1710,7 @@ export class BoardApi {
    */
   stopViewingHistory(): void {
     if (this.boardState.historyViewerState.isEnabled) {
-      this.viewHistory(this.getCurrentPlyNumber());
+      this.viewHistory(this.history.length);
     }
   }
 
@@ -697,7 +1738,7 @@ export class BoardApi {
   viewPrevious(): void {
     const ply = this.boardState.historyViewerState.isEnabled
       ? this.boardState.historyViewerState.plyViewing
-      : this.getCurrentPlyNumber();
+      : this.history.length;
     this.viewHistory(ply - 1);
   }
 }
@@ -1,30 +1,27 @@
 import type { Move, Piece } from 'chess.js';
-import type { Color, Key } from 'nichessground/types';
-import type { Threat } from '@/typings/Chessboard';
+import type { Color, Key, Role } from 'nichessground/types';
+import type {
+  AttackEvent,
+  ControlHeatmapMode,
+  GameResult,
+  HistoryMove,
+  KingThreat,
+  NichessRole,
+  PossibleAction,
+  Threat,
+} from '@/typings/Chessboard';
+import type { EngineLine } from '@/typings/Engine';
 import type { Api } from 'nichessground/api';
 import {
   Api as NichessApi,
   NUM_SQUARES,
   NUM_ROWS,
+  Player,
   PieceType,
   pieceTypeToAbilityPoints,
 } from 'nichess';
-
-export function getThreats(moves: Move[]): Threat[] {
-  const threats: Threat[] = [];
-
-  for (const move of moves) {
-    threats.push({ orig: move.to, brush: 'yellow' });
-    if (move['captured']) {
-      threats.push({ orig: move.from, dest: move.to, brush: 'red' });
-    }
-    if (move['san'].includes('+')) {
-      threats.push({ orig: move.from, dest: move.to, brush: 'blue' });
-    }
-  }
-
-  return threats;
-}
+import { pieceTypeToColor, pieceTypeToRole } from '@/utils/Roles';
+import { formatEngineScore } from '@/utils/Analysis';
 
 export function shortToLongColor(color: 'w' | 'b'): Color {
   return color === 'w' ? 'white' : 'black';
@@ -103,66 +100,27 @@ export function keyToSquareIndex(key: Key): number {
   return y * NUM_ROWS + x;
 }
 
-function nichessTypeToRole(pt: PieceType): string {
-  switch (pt) {
-    case PieceType.P1_KING:
-      return 'king';
-    case PieceType.P1_MAGE:
-      return 'queen';
-    case PieceType.P1_WARRIOR:
-      return 'rook';
-    case PieceType.P1_ASSASSIN:
-      return 'bishop';
-    case PieceType.P1_KNIGHT:
-      return 'knight';
-    case PieceType.P1_PAWN:
-      return 'pawn';
-    case PieceType.P2_KING:
-      return 'king';
-    case PieceType.P2_MAGE:
-      return 'queen';
-    case PieceType.P2_WARRIOR:
-      return 'rook';
-    case PieceType.P2_ASSASSIN:
-      return 'bishop';
-    case PieceType.P2_KNIGHT:
-      return 'knight';
-    case PieceType.P2_PAWN:
-      return 'pawn';
-    default:
-      return 'error';
-  }
+const nichessRoleToCgRoleMap: Record<NichessRole, Role> = {
+  king: 'king',
+  mage: 'queen',
+  warrior: 'rook',
+  assassin: 'bishop',
+  knight: 'knight',
+  pawn: 'pawn',
+};
+
+/**
+ * nichessground renders nichess pieces with chess roles, this mapping is only needed to talk to nichessground
+ * and should not leak into the public API
+ */
+export function nichessRoleToCgRole(role: NichessRole): Role {
+  return nichessRoleToCgRoleMap[role];
 }
 
-function nichessTypeToColor(pt: PieceType): string {
-  switch (pt) {
-    case PieceType.P1_KING:
-      return 'white';
-    case PieceType.P1_MAGE:
-      return 'white';
-    case PieceType.P1_WARRIOR:
-      return 'white';
-    case PieceType.P1_ASSASSIN:
-      return 'white';
-    case PieceType.P1_KNIGHT:
-      return 'white';
-    case PieceType.P1_PAWN:
-      return 'white';
-    case PieceType.P2_KING:
-      return 'black';
-    case PieceType.P2_MAGE:
-      return 'black';
-    case PieceType.P2_WARRIOR:
-      return 'black';
-    case PieceType.P2_ASSASSIN:
-      return 'black';
-    case PieceType.P2_KNIGHT:
-      return 'black';
-    case PieceType.P2_PAWN:
-      return 'black';
-    default:
-      return 'error';
-  }
+export function cgRoleToNichessRole(role: Role): NichessRole {
+  return (Object.keys(nichessRoleToCgRoleMap) as NichessRole[]).find(
+    (nichessRole) => nichessRoleToCgRoleMap[nichessRole] === role
+  ) as NichessRole;
 }
 
 export function fullRerender(cg: Api, nichess: NichessApi): void {
@@ -172,40 +130,16 @@ export function fullRerender(cg: Api, nichess: NichessApi): void {
     pieceDiff.set(key, undefined);
   }
 
-  const currentPlayerPieces = nichess.allPiecesByPlayer(
-    nichess.currentPlayer()
-  );
-  for (let i = 0; i < currentPlayerPieces.length; i++) {
-    const cp = currentPlayerPieces[i];
-    const key = squareIndexToKey(cp.squareIndex);
-    if (cp.healthPoints <= 0) {
-      continue;
-    } else {
-      const p = {
-        role: nichessTypeToRole(cp.type),
-        color: nichessTypeToColor(cp.type),
-        healthPoints: cp.healthPoints,
-        abilityPoints: pieceTypeToAbilityPoints(cp.type),
-      };
-      pieceDiff.set(key, p);
-    }
-  }
-  const otherPlayerPieces = nichess.allPiecesByPlayer(
-    1 - nichess.currentPlayer()
-  );
-  for (let i = 0; i < otherPlayerPieces.length; i++) {
-    const cp = otherPlayerPieces[i];
-    const key = squareIndexToKey(cp.squareIndex);
-    if (cp.healthPoints <= 0) {
-      continue;
-    } else {
-      const p = {
-        role: nichessTypeToRole(cp.type),
-        color: nichessTypeToColor(cp.type),
+  for (const player of [nichess.currentPlayer(), 1 - nichess.currentPlayer()]) {
+    for (const cp of nichess.allPiecesByPlayer(player)) {
+      if (cp.healthPoints <= 0) continue;
+      const key = squareIndexToKey(cp.squareIndex);
+      pieceDiff.set(key, {
+        role: nichessRoleToCgRole(pieceTypeToRole(cp.type) as NichessRole),
+        color: pieceTypeToColor(cp.type),
         healthPoints: cp.healthPoints,
         abilityPoints: pieceTypeToAbilityPoints(cp.type),
-      };
-      pieceDiff.set(key, p);
+      });
     }
   }
   cg.setPieces(pieceDiff);
@@ -226,6 +160,373 @@ export function possibleMoves(game: NichessApi): Map<Key, Key[]> {
   return dests;
 }
 
+/**
+ * returns the legal actions of the side to move by source square, with their kind
+ */
+export function possibleActions(game: NichessApi): Map<Key, PossibleAction[]> {
+  const actions = new Map<Key, PossibleAction[]>();
+  for (let i = 0; i < NUM_SQUARES; i++) {
+    const legalActions = game.legalActionsBySquare(i);
+    if (legalActions.length) {
+      const from = squareIndexToKey(i);
+      actions.set(
+        from,
+        legalActions.map((action) => ({
+          from: from,
+          to: squareIndexToKey(action.dstIdx),
+          kind:
+            game.pieceBySquare(action.dstIdx).type === PieceType.NO_PIECE
+              ? 'move'
+              : 'ability',
+        }))
+      );
+    }
+  }
+  return actions;
+}
+
+export function isActionLegal(
+  game: NichessApi,
+  srcIdx: number,
+  dstIdx: number
+): boolean {
+  return game
+    .legalActionsBySquare(srcIdx)
+    .some((action) => action.srcIdx === srcIdx && action.dstIdx === dstIdx);
+}
+
+/**
+ * makes the action from srcIdx to dstIdx on the game and returns the history record for it.
+ * The action is expected to be legal.
+ */
+export function playAction(
+  game: NichessApi,
+  srcIdx: number,
+  dstIdx: number
+): HistoryMove {
+  const before = game.boardToString();
+  const color: Color =
+    game.currentPlayer() === Player.PLAYER_1 ? 'white' : 'black';
+  const piece = game.pieceBySquare(srcIdx);
+  const target = game.pieceBySquare(dstIdx);
+  const isAbility = target.type !== PieceType.NO_PIECE;
+
+  game.makeAction(srcIdx, dstIdx);
+
+  // a killed target is either gone from its square or left behind with no health points
+  const targetAfter = game.pieceBySquare(dstIdx);
+  const targetHealthAfter =
+    isAbility && targetAfter.type === target.type
+      ? Math.max(targetAfter.healthPoints, 0)
+      : 0;
+
+  return {
+    from: squareIndexToKey(srcIdx),
+    to: squareIndexToKey(dstIdx),
+    pieceType: piece.type,
+    role: pieceTypeToRole(piece.type) as NichessRole,
+    color: color,
+    kind: isAbility ? 'ability' : 'move',
+    targetType: target.type,
+    targetRole: pieceTypeToRole(target.type) ?? null,
+    targetHealthBefore: isAbility ? target.healthPoints : 0,
+    targetHealthAfter: targetHealthAfter,
+    targetKilled: isAbility && targetHealthAfter <= 0,
+    pieceMoved: game.pieceBySquare(srcIdx).type !== piece.type,
+    before: before,
+    after: game.boardToString(),
+  };
+}
+
+/**
+ * returns the attack details of a history record, or undefined if the record is a plain move
+ */
+export function historyMoveToAttackEvent(
+  move: HistoryMove
+): AttackEvent | undefined {
+  if (move.kind !== 'ability' || move.targetRole == null) return undefined;
+  return {
+    attacker: { square: move.from, role: move.role, color: move.color },
+    target: {
+      square: move.to,
+      role: move.targetRole,
+      color: pieceTypeToColor(move.targetType) as Color,
+    },
+    damage: move.targetHealthBefore - move.targetHealthAfter,
+    targetHealthBefore: move.targetHealthBefore,
+    targetHealthAfter: move.targetHealthAfter,
+    targetKilled: move.targetKilled,
+    attackerMoved: move.pieceMoved,
+  };
+}
+
+/**
+ * returns the result of the game if the position ends it, or undefined if the game goes on
+ */
+export function gameResultByRules(game: NichessApi): GameResult | undefined {
+  for (const player of [Player.PLAYER_1, Player.PLAYER_2]) {
+    const hasKing = game
+      .allPiecesByPlayer(player)
+      .some(
+        (piece) =>
+          pieceTypeToRole(piece.type) === 'king' && piece.healthPoints > 0
+      );
+    if (!hasKing) {
+      const loser: Color = player === Player.PLAYER_1 ? 'white' : 'black';
+      return {
+        winner: loser === 'white' ? 'black' : 'white',
+        loser: loser,
+        reason: 'kingKilled',
+      };
+    }
+  }
+  if (game.isGameOver() && game.draw()) {
+    return { winner: null, loser: null, reason: 'drawByRule' };
+  }
+  if (possibleMoves(game).size === 0) {
+    const loser: Color =
+      game.currentPlayer() === Player.PLAYER_1 ? 'white' : 'black';
+    return {
+      winner: loser === 'white' ? 'black' : 'white',
+      loser: loser,
+      reason: 'noLegalActions',
+    };
+  }
+  return undefined;
+}
+
+/**
+ * returns the attacks the given player could make if it were their turn in the given position, with
+ * the damage each attack would deal
+ */
+export function possibleAttacks(
+  game: NichessApi,
+  player: Player = game.currentPlayer()
+): AttackEvent[] {
+  const scratch = new NichessApi();
+  scratch.boardFromString(game.boardToString());
+  scratch.setCurrentPlayer(player);
+
+  const attacks: AttackEvent[] = [];
+  for (let srcIdx = 0; srcIdx < NUM_SQUARES; srcIdx++) {
+    for (const action of scratch.legalActionsBySquare(srcIdx)) {
+      if (scratch.pieceBySquare(action.dstIdx).type === PieceType.NO_PIECE) {
+        continue;
+      }
+      const attack = historyMoveToAttackEvent(
+        playAction(scratch, srcIdx, action.dstIdx)
+      );
+      scratch.undoLastAction();
+      if (attack) attacks.push(attack);
+    }
+  }
+  return attacks;
+}
+
+/**
+ * returns the outcome of the given action without playing it, or undefined if the action isn't a legal
+ * attack of the side to move
+ */
+export function previewAttack(
+  game: NichessApi,
+  srcIdx: number,
+  dstIdx: number
+): AttackEvent | undefined {
+  if (
+    game.pieceBySquare(dstIdx).type === PieceType.NO_PIECE ||
+    !isActionLegal(game, srcIdx, dstIdx)
+  ) {
+    return undefined;
+  }
+  const scratch = new NichessApi();
+  scratch.boardFromString(game.boardToString());
+  return historyMoveToAttackEvent(playAction(scratch, srcIdx, dstIdx));
+}
+
+/**
+ * returns the attacks the opponent of color could make on color's king if it were the opponent's turn
+ * in the given position, eg. to warn about a king in danger before color moves
+ */
+export function kingThreats(game: NichessApi, color: Color): KingThreat[] {
+  const opponent = color === 'white' ? Player.PLAYER_2 : Player.PLAYER_1;
+  return possibleAttacks(game, opponent).filter(
+    (attack) => attack.target.role === 'king' && attack.target.color === color
+  );
+}
+
+/**
+ * returns the legal action count, the attackable enemy pieces, the attacks on the enemy king and the
+ * total damage of all attacks of the given player if it were their turn in the given position
+ */
+export function playerThreats(
+  game: NichessApi,
+  player: Player
+): { legal: number; threats: number; checks: number; damage: number } {
+  const scratch = new NichessApi();
+  scratch.boardFromString(game.boardToString());
+  scratch.setCurrentPlayer(player);
+  let legal = 0;
+  for (let srcIdx = 0; srcIdx < NUM_SQUARES; srcIdx++) {
+    legal += scratch.legalActionsBySquare(srcIdx).length;
+  }
+
+  const color: Color = player === Player.PLAYER_1 ? 'white' : 'black';
+  const attacks = possibleAttacks(game, player).filter(
+    (attack) => attack.target.color !== color
+  );
+  return {
+    legal: legal,
+    threats: new Set(attacks.map((attack) => attack.target.square)).size,
+    checks: attacks.filter((attack) => attack.target.role === 'king').length,
+    damage: attacks.reduce((total, attack) => total + attack.damage, 0),
+  };
+}
+
+/**
+ * returns for every square the number of pieces of each side that could act on it and the damage
+ * they could deal there if it were that side's turn. Squares no piece can act on are left out
+ */
+export function squareControl(
+  game: NichessApi
+): Map<Key, Record<Color, { pieces: number; damage: number }>> {
+  const control = new Map<
+    Key,
+    Record<Color, { pieces: number; damage: number }>
+  >();
+  function squareOf(
+    key: Key
+  ): Record<Color, { pieces: number; damage: number }> {
+    let square = control.get(key);
+    if (square == null) {
+      square = {
+        white: { pieces: 0, damage: 0 },
+        black: { pieces: 0, damage: 0 },
+      };
+      control.set(key, square);
+    }
+    return square;
+  }
+
+  for (const player of [Player.PLAYER_1, Player.PLAYER_2]) {
+    const color: Color = player === Player.PLAYER_1 ? 'white' : 'black';
+    const scratch = new NichessApi();
+    scratch.boardFromString(game.boardToString());
+    scratch.setCurrentPlayer(player);
+    for (const actions of possibleMoves(scratch).values()) {
+      for (const dest of new Set(actions)) {
+        squareOf(dest)[color].pieces++;
+      }
+    }
+    for (const attack of possibleAttacks(game, player)) {
+      squareOf(attack.target.square)[color].damage += attack.damage;
+    }
+  }
+  return control;
+}
+
+/**
+ * returns the heatmap classes of the given mode for highlight.custom, eg. 'heat-white-2 heat-black-1'.
+ * Levels go from 1 to 3, for damage they start at 1, 20 and 40 damage
+ */
+export function controlHeatmap(
+  game: NichessApi,
+  mode: ControlHeatmapMode
+): Map<Key, string> {
+  const heatmap = new Map<Key, string>();
+  for (const [key, square] of squareControl(game)) {
+    if (
+      mode === 'contested' &&
+      (square.white.pieces === 0 || square.black.pieces === 0)
+    ) {
+      continue;
+    }
+    const classes: string[] = [];
+    for (const color of ['white', 'black'] as const) {
+      const level =
+        mode === 'damage'
+          ? square[color].damage >= 40
+            ? 3
+            : square[color].damage >= 20
+            ? 2
+            : square[color].damage > 0
+            ? 1
+            : 0
+          : Math.min(square[color].pieces, 3);
+      if (level > 0) classes.push(`heat-${color}-${level}`);
+    }
+    if (classes.length > 0) heatmap.set(key, classes.join(' '));
+  }
+  return heatmap;
+}
+
+/**
+ * returns circles on the destinations of plain moves and arrows labelled with the damage for attacks
+ * of the side to move. Attacks that would kill or hit a king get their own brush
+ */
+export function getThreats(game: NichessApi): Threat[] {
+  const threats: Threat[] = [];
+  const moveDests = new Set<Key>();
+  for (let srcIdx = 0; srcIdx < NUM_SQUARES; srcIdx++) {
+    for (const action of game.legalActionsBySquare(srcIdx)) {
+      if (game.pieceBySquare(action.dstIdx).type === PieceType.NO_PIECE) {
+        moveDests.add(squareIndexToKey(action.dstIdx));
+      }
+    }
+  }
+  for (const dest of moveDests) {
+    threats.push({ orig: dest, brush: 'yellow' });
+  }
+
+  for (const attack of possibleAttacks(game)) {
+    threats.push({
+      orig: attack.attacker.square,
+      dest: attack.target.square,
+      brush:
+        attack.targetKilled || attack.target.role === 'king' ? 'purple' : 'red',
+      label: { text: `-${attack.damage}` },
+    });
+  }
+  return threats;
+}
+
+/**
+ * returns an arrow for the first action of every analysis line, labelled with its score. The best line
+ * gets its own brush
+ */
+export function analysisShapes(lines: EngineLine[]): Threat[] {
+  const shapes: Threat[] = [];
+  lines.forEach((line, index) => {
+    const action = line.pv[0] ? parseMoveString(line.pv[0]) : null;
+    if (action == null) return;
+    shapes.push({
+      orig: action.from,
+      dest: action.to,
+      brush: index === 0 ? 'blue' : 'paleBlue',
+      label: { text: formatEngineScore(line.score) },
+    });
+  });
+  return shapes;
+}
+
+/**
+ * compact string form of a history record, eg. 'e2e4' for a move and 'd1xd7' for an ability
+ */
+export function historyMoveToString(move: HistoryMove): string {
+  return move.kind === 'ability'
+    ? `${move.from}x${move.to}`
+    : `${move.from}${move.to}`;
+}
+
+/**
+ * parses the compact string form of an action, eg. 'e2e4' or 'd1xd7'
+ * @returns the source and destination keys, or null if the string is not an action
+ */
+export function parseMoveString(move: string): { from: Key; to: Key } | null {
+  const match = /^([a-h][1-8])x?([a-h][1-8])$/.exec(move.trim().toLowerCase());
+  if (match == null) return null;
+  return { from: match[1] as Key, to: match[2] as Key };
+}
+
 export function isPromotion(dest: Key, piece: Piece | null): boolean {
   if (piece?.type !== 'p') {
     return false;
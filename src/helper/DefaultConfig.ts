@@ -1,5 +1,6 @@
 import type { Key } from 'nichessground/types';
 import type { BoardConfig } from '@/typings/BoardConfig';
+import { startingPosition } from '@/utils/Position';
 
 export const possibleMovesWhite: Map<Key, Key[]> = new Map([
   ['b1', ['a3', 'c3']],
@@ -13,10 +14,8 @@ export const possibleMovesWhite: Map<Key, Key[]> = new Map([
   ['g2', ['g3', 'g4']],
   ['h2', ['h3', 'h4']],
 ]);
-//
-// TODO: Move this elsewhere. If the game is updated, but this isn't, it can cause silent bugs atm.
-export const initialPos =
-  '0|0-warrior-60,0-knight-60,0-assassin-10,0-mage-10,0-king-10,0-assassin-10,0-knight-60,0-warrior-60,0-pawn-30,0-pawn-30,0-pawn-30,0-pawn-30,0-pawn-30,0-pawn-30,0-pawn-30,0-pawn-30,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,empty,1-pawn-30,1-pawn-30,1-pawn-30,1-pawn-30,1-pawn-30,1-pawn-30,1-pawn-30,1-pawn-30,1-warrior-60,1-knight-60,1-assassin-10,1-mage-10,1-king-10,1-assassin-10,1-knight-60,1-warrior-60,';
+
+export const initialPos = startingPosition();
 
 // lichess default conf
 export const defaultBoardConfig: BoardConfig = {
@@ -29,6 +28,8 @@ export const defaultBoardConfig: BoardConfig = {
   disableContextMenu: false,
   addPieceZIndex: false,
   blockTouchScroll: false,
+  damagePreview: true,
+  hints: true,
   healthAndAbilityPointsText: {
     healthPointsVisible: true,
     theme: 'light-gold-2',
@@ -95,6 +96,7 @@ export const defaultBoardConfig: BoardConfig = {
       red: { key: 'r', color: '#882020', opacity: 1, lineWidth: 10 },
       blue: { key: 'b', color: '#003088', opacity: 1, lineWidth: 10 },
       yellow: { key: 'y', color: '#e68f00', opacity: 1, lineWidth: 10 },
+      purple: { key: 'pu', color: '#68217a', opacity: 1, lineWidth: 10 },
       paleBlue: { key: 'pb', color: '#003088', opacity: 0.4, lineWidth: 15 },
       paleGreen: { key: 'pg', color: '#15781B', opacity: 0.4, lineWidth: 15 },
       paleRed: { key: 'pr', color: '#882020', opacity: 0.4, lineWidth: 15 },
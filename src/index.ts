@@ -1,5 +1,20 @@
 export { default as TheChessboard } from './components/TheChessboard.vue';
+export { default as NichessBoardEditor } from './components/NichessBoardEditor.vue';
+export { default as NichessMaterialBar } from './components/NichessMaterialBar.vue';
+export { default as NichessEvalBar } from './components/NichessEvalBar.vue';
 export { default as BoardApi } from './classes/BoardApi';
 export * from './typings/BoardAPI';
 export * from './typings/Chessboard';
 export * from './typings/BoardConfig';
+export * from './typings/GameRecord';
+export * from './utils/GameRecord';
+export * from './typings/Position';
+export * from './utils/Position';
+export * from './utils/Roles';
+export * from './utils/Material';
+export * from './typings/Engine';
+export * from './utils/WorkerEngine';
+export * from './utils/AlphaBetaEngine';
+export * from './utils/Analysis';
+export * from './typings/Match';
+export * from './utils/Match';
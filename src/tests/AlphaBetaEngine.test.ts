@@ -0,0 +1,83 @@
+import { expect, it, describe } from 'vitest';
+import { AlphaBetaEngine, engineDifficulties } from '@/utils/AlphaBetaEngine';
+import { serializePosition, startingPosition } from '@/utils/Position';
+import { warriorPosition } from './helper/Constants';
+
+// white warrior on d4 next to a black king on d5 with 10 health points
+function killPosition(): string {
+  return serializePosition(
+    warriorPosition({
+      35: { role: 'king', color: 'black', healthPoints: 10 },
+      55: { role: 'pawn', color: 'black', healthPoints: 30 },
+      63: null,
+    })
+  );
+}
+
+describe.concurrent('Test the alpha-beta engine', () => {
+  it('kills the king when it can', async () => {
+    const engine = new AlphaBetaEngine();
+    engine.setPosition(killPosition());
+    const result = await engine.go({ depth: 3 });
+    expect(result.bestAction).toEqual({ from: 'd4', to: 'd5' });
+    expect(result.pv[0]).toBe('d4xd5');
+    expect(result.score).toBeGreaterThan(100000);
+  });
+
+  it('returns a legal action within the node limit', async () => {
+    const engine = new AlphaBetaEngine();
+    engine.setPosition(startingPosition());
+    const result = await engine.go({ depth: 10, nodes: 200 });
+    expect(result.bestAction).not.toBeNull();
+    expect(result.pv.length).toBeGreaterThan(0);
+  });
+
+  it('returns the best lines with multi-PV', async () => {
+    const engine = new AlphaBetaEngine();
+    engine.setPosition(startingPosition());
+    const result = await engine.go({ depth: 2, multiPv: 3 });
+    expect(result.depth).toBe(2);
+    expect(result.lines).toHaveLength(3);
+    const scores = result.lines?.map((line) => line.score) ?? [];
+    expect([...scores].sort((a, b) => b - a)).toEqual(scores);
+    expect(result.lines?.[0].pv).toEqual(result.pv);
+    expect(new Set(result.lines?.map((line) => line.pv[0])).size).toBe(3);
+  });
+
+  it('scores with a custom evaluation', async () => {
+    const engine = new AlphaBetaEngine({ evaluate: () => 7 });
+    engine.setPosition(startingPosition());
+    // one ply deep the position is evaluated for the opponent
+    expect((await engine.go({ depth: 1 })).score).toBe(-7);
+  });
+
+  it('maps difficulties to search settings', async () => {
+    expect(engineDifficulties.beginner.depth).toBeLessThan(
+      engineDifficulties.hard.depth ?? Infinity
+    );
+    const engine = new AlphaBetaEngine({ difficulty: 'beginner' });
+    engine.setPosition(startingPosition());
+    expect((await engine.go()).pv).toHaveLength(1);
+  });
+
+  it('stops searching when asked to', async () => {
+    const engine = new AlphaBetaEngine({ difficulty: 'hard' });
+    engine.setPosition(startingPosition());
+    const search = engine.go({ movetime: 10000 });
+    engine.stop();
+    expect((await search).bestAction).not.toBeNull();
+  });
+
+  it('ends a search when the position changes', async () => {
+    const engine = new AlphaBetaEngine({ difficulty: 'hard' });
+    engine.setPosition(startingPosition());
+    const search = engine.go({ movetime: 10000 });
+    engine.setPosition(killPosition());
+    const result = await engine.go({ depth: 3 });
+    expect(result.bestAction).toEqual({ from: 'd4', to: 'd5' });
+    // the first search answers for the starting position, where white's pieces are on ranks 1 and 2
+    const { bestAction, pv } = await search;
+    expect(['1', '2']).toContain(bestAction?.from[1]);
+    expect(pv[0]).toBe(`${bestAction?.from}${bestAction?.to}`);
+  });
+});
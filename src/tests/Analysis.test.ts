@@ -0,0 +1,31 @@
+import { expect, it, describe } from 'vitest';
+import {
+  engineScoreToWhiteShare,
+  formatEngineScore,
+  kingKillScore,
+  pliesToKill,
+} from '@/utils/Analysis';
+
+describe.concurrent('Test the engine score helpers', () => {
+  it('formats scores', () => {
+    expect(formatEngineScore(35.4)).toBe('+35');
+    expect(formatEngineScore(-12)).toBe('-12');
+    expect(formatEngineScore(0)).toBe('0');
+  });
+
+  it('formats king kills in moves', () => {
+    expect(pliesToKill(kingKillScore - 5)).toBe(5);
+    expect(pliesToKill(500)).toBeUndefined();
+    expect(formatEngineScore(kingKillScore - 5)).toBe('#3');
+    expect(formatEngineScore(-(kingKillScore - 4))).toBe('#-2');
+    expect(formatEngineScore(kingKillScore - 1)).toBe('#1');
+  });
+
+  it('maps scores to the share of white', () => {
+    expect(engineScoreToWhiteShare(0)).toBe(50);
+    expect(engineScoreToWhiteShare(100)).toBeCloseTo(75);
+    expect(engineScoreToWhiteShare(-100)).toBeCloseTo(25);
+    expect(engineScoreToWhiteShare(kingKillScore - 3)).toBe(100);
+    expect(engineScoreToWhiteShare(-(kingKillScore - 3))).toBe(0);
+  });
+});
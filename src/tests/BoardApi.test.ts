@@ -1,6 +1,13 @@
 import type { BoardApi } from '@/classes/BoardApi';
 import { initialPos } from '@/helper/DefaultConfig';
-import { beforeEach, describe, expect, it } from 'vitest';
+import { PieceType, Player } from 'nichess';
+import { GameRecordParseError } from '@/utils/GameRecord';
+import { InvalidPositionError } from '@/utils/Position';
+import { warriorPosition } from './helper/Constants';
+import type { EngineResult, NichessEngine } from '@/typings/Engine';
+import type { Key } from 'nichessground/types';
+import { flushPromises } from '@vue/test-utils';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { makeStalemate, mountComponent, resetBoard } from './helper/Helper';
 
 describe.concurrent('Test the board API', () => {
@@ -25,7 +32,7 @@ describe.concurrent('Test the board API', () => {
   });
 
   it('undoes moves', () => {
-    boardApi?.move('e4');
+    boardApi?.move('e2e4');
     boardApi?.undoLastMove();
 
     expect(boardApi?.getTurnColor()).toBe('white');
@@ -36,6 +43,49 @@ describe.concurrent('Test the board API', () => {
     // @TODO test if event emitted after undo
   });
 
+  it('redoes undone moves', () => {
+    boardApi.move('e2e4');
+    boardApi.move('e7e5');
+    boardApi.undoLastMove();
+    boardApi.undoLastMove();
+    expect(boardApi.getHistory()).toHaveLength(0);
+
+    boardApi.redoLastMove();
+    expect(boardApi.getHistory()).toEqual(['e2e4']);
+    boardApi.redoLastMove();
+    expect(boardApi.getHistory()).toEqual(['e2e4', 'e7e5']);
+
+    // making a move after undoing discards the undone moves
+    boardApi.undoLastMove();
+    boardApi.move('d7d5');
+    boardApi.redoLastMove();
+    expect(boardApi.getHistory()).toEqual(['e2e4', 'd7d5']);
+  });
+
+  it('returns the move history', () => {
+    expect(boardApi.move('e2e4')).toBe(true);
+    expect(boardApi.move({ from: 'e7', to: 'e5' })).toBe(true);
+    expect(boardApi.move('e2e5')).toBe(false);
+    expect(boardApi.getHistory()).toEqual(['e2e4', 'e7e5']);
+
+    const history = boardApi.getHistory(true);
+    expect(history).toHaveLength(2);
+    expect(history[0].before).toBe(initialPos);
+    expect(history[0].after).toBe(history[1].before);
+    expect(history[1].after).toBe(boardApi.getFen());
+
+    // the records are copies, changing them doesn't change the game
+    history[0].to = 'e3';
+    const lastMove = boardApi.getLastMove();
+    if (lastMove) lastMove.after = initialPos;
+    expect(boardApi.getHistory()).toEqual(['e2e4', 'e7e5']);
+    expect(boardApi.getLastMove()?.after).toBe(boardApi.getFen());
+
+    boardApi.setPosition(initialPos);
+    expect(boardApi.getHistory()).toHaveLength(0);
+    expect(boardApi.getLastMove()).toBeUndefined();
+  });
+
   it('returns the current turn color', () => {
     boardApi.move('e4');
     expect(boardApi?.getTurnColor()).toBe('black');
@@ -48,59 +98,130 @@ describe.concurrent('Test the board API', () => {
     expect(boardApi.getTurnColor()).toBe('white');
   });
 
-  it('returns the correct material count', () => {
-    const initialMaterialCount = boardApi.getMaterialCount();
-
-    expect(initialMaterialCount.materialWhite).toBe(39);
-    expect(initialMaterialCount.materialBlack).toBe(39);
-    expect(initialMaterialCount.materialDiff).toBe(0);
+  it('draws threats and redraws them after each action', () => {
+    const autoShapes = (): unknown[] =>
+      (boardApi as any).board.state.drawable.autoShapes;
+    boardApi.toggleMoves();
+    const startShapes = autoShapes();
+    expect(startShapes.length).toBeGreaterThan(0);
 
     boardApi.move('e2e4');
-    boardApi.move('d7d5');
-    boardApi.move('exd5');
-    const materialCountAfterExchange = boardApi.getMaterialCount();
+    expect(autoShapes().length).toBeGreaterThan(0);
+    expect(autoShapes()).not.toEqual(startShapes);
 
-    expect(materialCountAfterExchange.materialWhite).toBe(39);
-    expect(materialCountAfterExchange.materialBlack).toBe(38);
-    expect(materialCountAfterExchange.materialDiff).toBe(1);
+    boardApi.viewHistory(0);
+    expect(autoShapes()).toEqual([]);
+    boardApi.stopViewingHistory();
+    expect(autoShapes().length).toBeGreaterThan(0);
 
-    boardApi.resetBoard();
-    const materialCountAfterReset = boardApi.getMaterialCount();
+    boardApi.toggleMoves();
+    expect(autoShapes()).toEqual([]);
+    boardApi.move('e7e5');
+    expect(autoShapes()).toEqual([]);
+  });
+
+  it('previews the damage of the hovered attack', () => {
+    boardApi.setPosition(warriorPosition());
 
-    expect(materialCountAfterReset.materialWhite).toBe(39);
-    expect(materialCountAfterReset.materialBlack).toBe(39);
-    expect(materialCountAfterReset.materialDiff).toBe(0);
+    const board = (boardApi as any).board;
+    const boardElement = wrapper.find('.main-board > div').element;
+    const getKeyAtDomPos = vi
+      .spyOn(board, 'getKeyAtDomPos')
+      .mockReturnValue('d5');
+    board.state.selected = 'd4';
+    boardElement.dispatchEvent(new MouseEvent('mousemove'));
+
+    const previewedHealthPoints = board.state.pieces.get('d5').healthPoints;
+    expect(previewedHealthPoints).toBeLessThan(30);
+    const preview = board.state.drawable.autoShapes.at(-1);
+    expect(preview.brush).toBe('paleRed');
+    expect(preview.label.text).toBe(
+      previewedHealthPoints > 0 ? `${previewedHealthPoints} HP` : 'kills'
+    );
+
+    boardElement.dispatchEvent(new MouseEvent('mouseleave'));
+    expect(board.state.pieces.get('d5').healthPoints).toBe(30);
+    expect(board.state.drawable.autoShapes).toEqual([]);
+
+    // the preview matches the outcome of the attack
+    boardApi.move('d4xd5');
+    expect(boardApi.getLastMove()?.targetHealthAfter).toBe(
+      Math.max(previewedHealthPoints, 0)
+    );
+    expect(preview.dest === undefined).toBe(
+      !boardApi.getLastMove()?.pieceMoved
+    );
+
+    // no preview when disabled in the config
+    boardApi.setConfig({ damagePreview: false });
+    boardApi.undoLastMove();
+    board.state.selected = 'd4';
+    boardElement.dispatchEvent(new MouseEvent('mousemove'));
+    expect(board.state.pieces.get('d5').healthPoints).toBe(30);
+    getKeyAtDomPos.mockRestore();
+    boardApi.setConfig({ damagePreview: true });
   });
 
-  it('returns the captured pieces', () => {
-    expect(boardApi.getCapturedPieces()).toEqual({ white: [], black: [] });
-    boardApi.move('e4');
-    boardApi.move('d5');
-    boardApi.move('exd5');
-    expect(boardApi.getCapturedPieces()).toEqual({ white: ['p'], black: [] });
-    boardApi.move('Qxd5');
-    expect(boardApi.getCapturedPieces()).toEqual({
-      white: ['p'],
-      black: ['p'],
+  it('returns the correct material count', () => {
+    const initialMaterialCount = boardApi.getMaterialCount();
+    expect(initialMaterialCount).toStrictEqual({
+      white: { pieces: 16, healthPoints: 520, material: 520 },
+      black: { pieces: 16, healthPoints: 520, material: 520 },
     });
-    boardApi.move('c4');
-    boardApi.move('e6');
-    boardApi.move('cxd5');
-    expect(boardApi.getCapturedPieces()).toEqual({
-      white: ['p', 'q'],
-      black: ['p'],
+    expect(boardApi.getMaterialDiff()).toStrictEqual({
+      materialWhite: 520,
+      materialBlack: 520,
+      materialDiff: 0,
     });
-    boardApi.move('exd5');
-    expect(boardApi.getCapturedPieces()).toEqual({
-      white: ['p', 'q'],
-      black: ['p', 'p'],
+    expect(
+      boardApi.getMaterialCount({ weights: { pawn: 0, king: 2 } }).white
+    ).toStrictEqual({ pieces: 16, healthPoints: 520, material: 290 });
+
+    boardApi.setPosition(
+      warriorPosition({ 35: { role: 'pawn', color: 'black', healthPoints: 1 } })
+    );
+    expect(boardApi.getMaterialDiff().materialDiff).toBe(59);
+
+    boardApi.move('d4xd5');
+    expect(boardApi.getMaterialCount().black).toStrictEqual({
+      pieces: 1,
+      healthPoints: 10,
+      material: 10,
     });
-    boardApi.move('Bc4');
-    boardApi.move('dxc4');
-    expect(boardApi.getCapturedPieces()).toEqual({
-      white: ['p', 'q'],
-      black: ['p', 'p', 'b'],
+    expect(boardApi.getMaterialDiff({ ply: 0 }).materialDiff).toBe(59);
+    expect(boardApi.getMaterialDiff().materialDiff).toBe(60);
+
+    boardApi.undoLastMove();
+    expect(boardApi.getMaterialDiff().materialDiff).toBe(59);
+    boardApi.redoLastMove();
+    expect(boardApi.getMaterialDiff().materialDiff).toBe(60);
+  });
+
+  it('returns the killed pieces', () => {
+    expect(boardApi.getKilledPieces()).toEqual({ white: [], black: [] });
+    boardApi.setPosition(
+      warriorPosition({ 35: { role: 'pawn', color: 'black', healthPoints: 1 } })
+    );
+    boardApi.move('a1a2');
+    boardApi.move('h8h7');
+    boardApi.move('d4xd5');
+    const killed = {
+      white: [{ role: 'pawn', color: 'black', square: 'd5', ply: 3 }],
+      black: [],
+    };
+    expect(boardApi.getKilledPieces()).toEqual(killed);
+    expect(boardApi.getKilledPieces({ ply: 2 })).toEqual({
+      white: [],
+      black: [],
     });
+
+    boardApi.undoLastMove();
+    expect(boardApi.getKilledPieces()).toEqual({ white: [], black: [] });
+    boardApi.redoLastMove();
+    expect(boardApi.getKilledPieces()).toEqual(killed);
+
+    boardApi.loadPgn(boardApi.getPgn());
+    expect(boardApi.getKilledPieces()).toEqual(killed);
   });
 
   it('returns the current turn number', () => {
@@ -163,43 +284,67 @@ describe.concurrent('Test the board API', () => {
   });
 
   it('should update board with pgn', () => {
-    const pgn = '1. e4 e5';
+    const pgn = `[Result "*"]\n[Position "${initialPos}"]\n\n1. e2e4 e7e5 *`;
 
     boardApi.loadPgn(pgn);
 
-    expect(boardApi.getFen()).toBe(
-      'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2'
-    );
+    expect(boardApi.getHistory()).toEqual(['e2e4', 'e7e5']);
     expect(boardApi?.getPgn()).toBe(pgn);
     expect(boardApi.getTurnColor()).toBe('white');
     expect(boardApi.getCurrentTurnNumber()).toBe(2);
+
+    // the loaded moves can be undone and redone
+    boardApi.undoLastMove();
+    boardApi.undoLastMove();
+    expect(boardApi.getFen()).toBe(initialPos);
+    boardApi.redoLastMove();
+    expect(boardApi.getHistory()).toEqual(['e2e4']);
+  });
+
+  it('rejects a pgn with an illegal move', () => {
+    boardApi.move('e2e4');
+    expect(() => boardApi.loadPgn('1. e2e4 e7e3')).toThrowError(
+      GameRecordParseError
+    );
+    expect(boardApi.getHistory()).toEqual(['e2e4']);
   });
 
   it('should return the last move', () => {
     expect(boardApi.getLastMove()).toBe(undefined);
-    boardApi.move('e4');
+    boardApi.move('e2e4');
+    const afterFirstMove = boardApi.getFen();
     expect(boardApi.getLastMove()).toStrictEqual({
-      color: 'w',
-      piece: 'p',
       from: 'e2',
       to: 'e4',
-      san: 'e4',
-      flags: 'b',
-      lan: 'e2e4',
-      before: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1',
-      after: 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1',
+      pieceType: PieceType.P1_PAWN,
+      role: 'pawn',
+      color: 'white',
+      kind: 'move',
+      targetType: PieceType.NO_PIECE,
+      targetRole: null,
+      targetHealthBefore: 0,
+      targetHealthAfter: 0,
+      targetKilled: false,
+      pieceMoved: true,
+      before: initialPos,
+      after: afterFirstMove,
     });
-    boardApi.move('e5');
+    boardApi.move('e7e5');
     expect(boardApi.getLastMove()).toStrictEqual({
-      color: 'b',
-      piece: 'p',
       from: 'e7',
       to: 'e5',
-      san: 'e5',
-      flags: 'b',
-      lan: 'e7e5',
-      before: 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1',
-      after: 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2',
+      pieceType: PieceType.P2_PAWN,
+      role: 'pawn',
+      color: 'black',
+      kind: 'move',
+      targetType: PieceType.NO_PIECE,
+      targetRole: null,
+      targetHealthBefore: 0,
+      targetHealthAfter: 0,
+      targetKilled: false,
+      pieceMoved: true,
+      before: afterFirstMove,
+      after: boardApi.getFen(),
     });
     boardApi.resetBoard();
     expect(boardApi.getLastMove()).toBe(undefined);
@@ -248,6 +393,357 @@ describe.concurrent('Test the board API', () => {
     expect(boardApi.move('c7c5')).toBeFalsy();
   });
 
+  it('returns the board position', () => {
+    boardApi.move('e2e4');
+    const board = boardApi.getBoardPosition();
+    expect(board).toHaveLength(8);
+    board.forEach((rank) => expect(rank).toHaveLength(8));
+
+    // rank 8 comes first, file a first within a rank
+    expect(board[0][4]).toMatchObject({
+      square: 'e8',
+      role: 'king',
+      color: 'black',
+      healthPoints: 10,
+    });
+    expect(board[7][3]).toMatchObject({
+      square: 'd1',
+      role: 'mage',
+      color: 'white',
+    });
+    expect(board[7][3]?.abilityPoints).toBeGreaterThan(0);
+    expect(board[4][4]).toMatchObject({ square: 'e4', role: 'pawn' });
+    expect(board[6][4]).toBeNull();
+  });
+
+  it('refuses an invalid position', () => {
+    boardApi.move('e2e4');
+    const position = boardApi.getPosition();
+    position.squares[4] = null;
+    let error: unknown;
+    try {
+      boardApi.setPosition(position);
+    } catch (thrown) {
+      error = thrown;
+    }
+    expect(error).toBeInstanceOf(InvalidPositionError);
+    expect((error as InvalidPositionError).problems).toEqual([
+      { code: 'missingKing', message: 'white has no king', color: 'white' },
+    ]);
+    expect(boardApi.getHistory()).toEqual(['e2e4']);
+    expect(boardApi.getPiece('e1').type).toBe(PieceType.P1_KING);
+  });
+
+  it('removes a piece', () => {
+    boardApi.move('e2e4');
+    expect(boardApi.removePiece('d2')).toBe(true);
+    expect(boardApi.getPiece('d2').type).toBe(PieceType.NO_PIECE);
+    expect((boardApi as any).board.state.pieces.get('d2')).toBeUndefined();
+    expect(boardApi.getTurnColor()).toBe('black');
+    expect(boardApi.getHistory()).toHaveLength(0);
+    expect(boardApi.removePiece('d4')).toBe(false);
+  });
+
+  it('clears the board', () => {
+    boardApi.move('e2e4');
+    boardApi.viewStart();
+    expect(boardApi.clearBoard()).toBe(true);
+    expect((boardApi as any).board.state.pieces.size).toBe(0);
+    expect(
+      boardApi.getPosition().squares.every((square) => square == null)
+    ).toBe(true);
+    expect(boardApi.getTurnColor()).toBe('black');
+    expect((boardApi as any).boardState.historyViewerState.isEnabled).toBe(
+      false
+    );
+    expect(boardApi.getPossibleMoves()?.size).toBe(0);
+    expect(wrapper.emitted('gameOver')).toStrictEqual([
+      [{ winner: 'black', loser: 'white', reason: 'kingKilled' }],
+    ]);
+  });
+
+  it('puts a piece on a key', () => {
+    boardApi.move('e2e4');
+    boardApi.removePiece('e4');
+    expect(boardApi.putPiece(PieceType.P1_MAGE, 'e4', 10)).toBe(true);
+    expect(boardApi.getPiece('e4')).toMatchObject({
+      type: PieceType.P1_MAGE,
+      healthPoints: 10,
+    });
+    expect((boardApi as any).board.state.pieces.get('e4')).toBeDefined();
+    expect(boardApi.getHistory()).toHaveLength(0);
+    expect(boardApi.getTurnColor()).toBe('black');
+    boardApi.setCurrentPlayer(Player.PLAYER_1);
+    expect(boardApi.getPossibleMoves()?.has('e4')).toBe(true);
+  });
+
+  it('separates move and ability destinations', () => {
+    boardApi.setPosition(warriorPosition());
+    boardApi.setConfig({ highlight: { custom: new Map([['h1', 'marked']]) } });
+
+    const actions = boardApi.getPossibleMoves().get('d4') ?? [];
+    expect(actions).toContainEqual({ from: 'd4', to: 'd5', kind: 'ability' });
+    expect(actions.some((action) => action.kind === 'move')).toBe(true);
+
+    const board = (boardApi as any).board;
+    const boardElement = wrapper.find('.main-board > div').element;
+    board.state.selected = 'd4';
+    boardElement.dispatchEvent(new MouseEvent('mousedown'));
+    const custom = board.state.highlight.custom;
+    expect(custom.get('d5')).toMatch(/^ability-dest( in-place)?$/);
+    expect(custom.get('h1')).toBe('marked');
+    expect([...custom.keys()]).toHaveLength(2);
+
+    board.state.selected = undefined;
+    boardElement.dispatchEvent(new MouseEvent('mousedown'));
+    expect([...board.state.highlight.custom]).toEqual([['h1', 'marked']]);
+    boardApi.setConfig({ highlight: { custom: new Map() } });
+  });
+
+  it('shows and hides the control heatmap', () => {
+    boardApi.setPosition(warriorPosition());
+    const board = (boardApi as any).board;
+
+    boardApi.showControlHeatmap();
+    expect(board.state.highlight.custom.get('d5')).toMatch(/heat-white-[1-3]/);
+    expect(board.state.highlight.custom.has('h8')).toBe(false);
+
+    boardApi.showControlHeatmap('damage');
+    expect(board.state.highlight.custom.get('d5')).toMatch(/heat-white-[1-3]/);
+
+    boardApi.showControlHeatmap('contested');
+    for (const classes of board.state.highlight.custom.values()) {
+      expect(classes).toMatch(/heat-white-[1-3] heat-black-[1-3]/);
+    }
+
+    boardApi.hideControlHeatmap();
+    expect(board.state.highlight.custom.size).toBe(0);
+  });
+
+  it('counts the threats of both sides', () => {
+    boardApi.setPosition(warriorPosition());
+
+    const threatCount = boardApi.getThreatCount();
+    expect(threatCount.turn).toBe('white');
+    expect(threatCount.fen).toBe(boardApi.getFen());
+    expect(threatCount.history).toEqual([]);
+    expect(threatCount.legalWhite).toBeGreaterThan(0);
+    expect(threatCount.legalBlack).toBeGreaterThan(0);
+    expect(threatCount.threatWhite).toBe(1);
+    expect(threatCount.checksWhite).toBe(0);
+    expect(threatCount.damageWhite).toBeGreaterThan(0);
+
+    boardApi.move('d4xd5');
+    expect(boardApi.getThreatCount().turn).toBe('black');
+    expect(boardApi.getThreatCount({ ply: 0 })).toEqual(threatCount);
+  });
+
+  it('plays the reply of an engine', async () => {
+    function firstAction(): { from: Key; to: Key } {
+      const [from, actions] = [...(boardApi as BoardApi).getPossibleMoves()][0];
+      return { from, to: actions[0].to };
+    }
+    const engine: NichessEngine = {
+      setPosition: vi.fn(),
+      go: vi.fn(async () => ({ bestAction: firstAction(), score: 0, pv: [] })),
+      stop: vi.fn(),
+    };
+    boardApi.setEngine(engine, 'black', { depth: 2 });
+    expect(boardApi.getEngineColor()).toBe('black');
+    await flushPromises();
+    expect(engine.go).not.toHaveBeenCalled();
+
+    boardApi.move(firstAction());
+    await flushPromises();
+    expect(engine.setPosition).toHaveBeenCalled();
+    expect(engine.go).toHaveBeenCalledWith({ depth: 2 });
+    expect(boardApi.getHistory()).toHaveLength(2);
+    expect(boardApi.getTurnColor()).toBe('white');
+
+    boardApi.setEngine(undefined);
+    expect(boardApi.getEngineColor()).toBeUndefined();
+  });
+
+  it('emits engineError when the engine fails', async () => {
+    const engine: NichessEngine = {
+      setPosition: vi.fn(),
+      go: vi.fn(async () => ({
+        bestAction: { from: 'a1', to: 'h8' } as const,
+        score: 0,
+        pv: [],
+      })),
+      stop: vi.fn(),
+    };
+    boardApi.setEngine(engine, 'white');
+    await flushPromises();
+    expect(wrapper.emitted('engineError')).toEqual([
+      [new Error('Illegal engine action "a1h8"')],
+    ]);
+    expect(boardApi.getHistory()).toHaveLength(0);
+
+    engine.go = vi.fn(async () => {
+      throw new Error('search failed');
+    });
+    boardApi.setEngine(engine, 'white');
+    await flushPromises();
+    expect(wrapper.emitted('engineError')?.[1]).toEqual([
+      new Error('search failed'),
+    ]);
+    boardApi.setEngine(undefined);
+  });
+
+  it('analyses the displayed position', async () => {
+    boardApi.setPosition(warriorPosition());
+    const engine: NichessEngine = {
+      setPosition: vi.fn(),
+      go: vi.fn(async (options) => ({
+        bestAction: { from: 'd4', to: 'd5' } as const,
+        score: 30,
+        pv: ['d4xd5'],
+        lines: [
+          { score: 30, pv: ['d4xd5'] },
+          { score: -5, pv: ['d4d3'] },
+        ],
+        depth: options?.depth,
+      })),
+      stop: vi.fn(),
+    };
+    boardApi.setEngine(engine, 'black');
+    boardApi.startAnalysis({ depth: 2, multiPv: 2 });
+    await flushPromises();
+
+    expect(engine.setPosition).toHaveBeenLastCalledWith(boardApi.getFen());
+    expect(engine.go).toHaveBeenLastCalledWith({ depth: 2, multiPv: 2 });
+    expect(boardApi.getAnalysis()?.depth).toBe(2);
+    expect(boardApi.getAnalysis()?.lines.map((line) => line.score)).toEqual([
+      30, -5,
+    ]);
+    const board = (boardApi as any).board;
+    expect(board.state.drawable.autoShapes).toEqual([
+      { orig: 'd4', dest: 'd5', brush: 'blue', label: { text: '+30' } },
+      { orig: 'd4', dest: 'd3', brush: 'paleBlue', label: { text: '-5' } },
+    ]);
+
+    // the engine analyses instead of playing black, and black's scores are turned around
+    boardApi.move('d4xd5');
+    await flushPromises();
+    expect(boardApi.getHistory()).toHaveLength(1);
+    expect(boardApi.getAnalysis()?.lines[0].score).toBe(-30);
+
+    boardApi.viewHistory(0);
+    await flushPromises();
+    expect(engine.setPosition).toHaveBeenLastCalledWith(
+      boardApi.getHistory(true)[0].before
+    );
+    expect(boardApi.getAnalysis()?.fen).toBe(
+      boardApi.getHistory(true)[0].before
+    );
+
+    boardApi.stopViewingHistory();
+    boardApi.stopAnalysis();
+    expect(boardApi.getAnalysis()).toBeUndefined();
+    expect(board.state.drawable.autoShapes).toEqual([]);
+    boardApi.setEngine(undefined);
+  });
+
+  it('waits for a stopped search before analysing the next position', async () => {
+    let finishSearch = (): void => undefined;
+    const engine: NichessEngine = {
+      setPosition: vi.fn(),
+      go: vi.fn(
+        () =>
+          new Promise<EngineResult>((resolve) => {
+            finishSearch = (): void =>
+              resolve({ bestAction: null, score: 0, pv: [] });
+          })
+      ),
+      stop: vi.fn(),
+    };
+    boardApi.setEngine(engine, 'black');
+    boardApi.startAnalysis({ depth: 1 });
+    await flushPromises();
+    expect(engine.go).toHaveBeenCalledTimes(1);
+
+    boardApi.move('e2e4');
+    await flushPromises();
+    expect(engine.stop).toHaveBeenCalled();
+    expect(engine.setPosition).toHaveBeenCalledTimes(1);
+
+    finishSearch();
+    await flushPromises();
+    expect(engine.setPosition).toHaveBeenLastCalledWith(boardApi.getFen());
+    expect(engine.go).toHaveBeenCalledTimes(2);
+
+    finishSearch();
+    boardApi.stopAnalysis();
+    boardApi.setEngine(undefined);
+  });
+
+  it('suggests hints and counts them', async () => {
+    const engine: NichessEngine = {
+      setPosition: vi.fn(),
+      go: vi.fn(async () => ({
+        bestAction: { from: 'e2', to: 'e4' } as const,
+        score: 0,
+        pv: ['e2e4'],
+      })),
+      stop: vi.fn(),
+    };
+    boardApi.setEngine(engine, 'black');
+    const board = (boardApi as any).board;
+
+    expect(await boardApi.getHint()).toEqual({ from: 'e2', to: 'e4' });
+    expect(board.state.highlight.custom.get('e2')).toBe('hint');
+    expect(board.state.drawable.autoShapes).toEqual([]);
+
+    await boardApi.getHint({ level: 2, movetime: 100 });
+    expect(engine.go).toHaveBeenLastCalledWith({ movetime: 100 });
+    expect(board.state.drawable.autoShapes).toEqual([
+      { orig: 'e2', dest: 'e4', brush: 'green' },
+    ]);
+    expect(boardApi.getHintsUsed()).toEqual({ white: 2, black: 0 });
+
+    boardApi.move('e2e4');
+    expect(board.state.highlight.custom.has('e2')).toBe(false);
+    expect(board.state.drawable.autoShapes).toEqual([]);
+    boardApi.setEngine(undefined);
+
+    const pgn = boardApi.getPgn();
+    expect(pgn).toContain('[WhiteHints "2"]');
+    expect(pgn).not.toContain('BlackHints');
+    boardApi.loadPgn(pgn);
+    expect(boardApi.getHintsUsed()).toEqual({ white: 2, black: 0 });
+
+    boardApi.setConfig({ hints: false });
+    expect(await boardApi.getHint()).toBeNull();
+    expect(boardApi.getHintsUsed()).toEqual({ white: 2, black: 0 });
+    boardApi.setConfig({ hints: true });
+  });
+
+  it('asks the hint engine without an idle engine', async () => {
+    const hintEngine: NichessEngine = {
+      setPosition: vi.fn(),
+      go: vi.fn(async () => ({
+        bestAction: { from: 'd2', to: 'd4' } as const,
+        score: 0,
+        pv: ['d2d4'],
+      })),
+      stop: vi.fn(),
+    };
+    boardApi.setHintEngine(hintEngine);
+    expect(await boardApi.getHint({ depth: 2 })).toEqual({
+      from: 'd2',
+      to: 'd4',
+    });
+    expect(hintEngine.setPosition).toHaveBeenCalledWith(boardApi.getFen());
+    expect(hintEngine.go).toHaveBeenLastCalledWith({ depth: 2 });
+
+    boardApi.setHintEngine(undefined);
+    expect(hintEngine.stop).toHaveBeenCalled();
+    expect(await boardApi.getHint()).not.toBeNull();
+    expect(hintEngine.go).toHaveBeenCalledTimes(1);
+  });
+
   it('handles short castling correctly', () => {
     boardApi.move('e4');
     boardApi.move('e5');
@@ -317,10 +813,10 @@ describe.concurrent('Test the board API', () => {
     expect((boardApi as any).boardState.historyViewerState.isEnabled).toBe(
       false
     );
-    boardApi.move('e4');
-    boardApi.move('e5');
-    boardApi.move('d4');
-    boardApi.move('exd4');
+    boardApi.move('e2e4');
+    boardApi.move('e7e5');
+    boardApi.move('d2d4');
+    boardApi.move('d7d5');
     expect((boardApi as any).boardState.historyViewerState.isEnabled).toBe(
       false
     );
@@ -329,87 +825,107 @@ describe.concurrent('Test the board API', () => {
       true
     );
     expect((boardApi as any).boardState.historyViewerState.plyViewing).toBe(1);
-    expect((boardApi as any).board.state.fen).toBe(
-      'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1'
-    );
+    expect((boardApi as any).board.state.pieces.get('e4')).toMatchObject({
+      role: 'pawn',
+      color: 'white',
+      healthPoints: 30,
+    });
+    expect((boardApi as any).board.state.pieces.get('e7')).toMatchObject({
+      role: 'pawn',
+      color: 'black',
+    });
+    expect((boardApi as any).board.state.pieces.get('d4')).toBeUndefined();
+    expect((boardApi as any).board.state.lastMove).toEqual(['e2', 'e4']);
+    expect((boardApi as any).board.state.turnColor).toBe('black');
+
+    // the game itself is unchanged while viewing history
+    expect(boardApi.getHistory()).toHaveLength(4);
   });
 
   it('views the previous move when not viewing history', () => {
-    boardApi.move('e4');
-    boardApi.move('e5');
+    boardApi.move('e2e4');
+    boardApi.move('e7e5');
     boardApi.viewPrevious();
     expect((boardApi as any).boardState.historyViewerState.isEnabled).toBe(
       true
     );
     expect((boardApi as any).boardState.historyViewerState.plyViewing).toBe(1);
-    expect((boardApi as any).board.state.fen).toBe(
-      'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1'
-    );
+    expect((boardApi as any).board.state.pieces.get('e4')).toBeDefined();
+    expect((boardApi as any).board.state.pieces.get('e5')).toBeUndefined();
   });
 
   it('views the previous move when already viewing history', () => {
-    boardApi.move('e4');
-    boardApi.move('e5');
+    boardApi.move('e2e4');
+    boardApi.move('e7e5');
     boardApi.viewPrevious();
     boardApi.viewPrevious();
     expect((boardApi as any).boardState.historyViewerState.isEnabled).toBe(
       true
     );
     expect((boardApi as any).boardState.historyViewerState.plyViewing).toBe(0);
-    expect((boardApi as any).board.state.fen).toBe(
-      'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
-    );
+    expect((boardApi as any).board.state.pieces.get('e2')).toBeDefined();
+    expect((boardApi as any).board.state.pieces.get('e4')).toBeUndefined();
+    expect((boardApi as any).board.state.lastMove).toBeUndefined();
   });
 
   it('views the next move when viewing history', () => {
-    boardApi.move('e4');
-    boardApi.move('e5');
+    boardApi.move('e2e4');
+    boardApi.move('e7e5');
     boardApi.viewHistory(0);
     boardApi.viewNext();
     expect((boardApi as any).boardState.historyViewerState.isEnabled).toBe(
       true
     );
     expect((boardApi as any).boardState.historyViewerState.plyViewing).toBe(1);
-    expect((boardApi as any).board.state.fen).toBe(
-      'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1'
-    );
+    expect((boardApi as any).board.state.pieces.get('e4')).toBeDefined();
+    expect((boardApi as any).board.state.pieces.get('e5')).toBeUndefined();
   });
 
   it('views the first turn', () => {
-    boardApi.move('e4');
-    boardApi.move('e5');
+    boardApi.move('e2e4');
+    boardApi.move('e7e5');
     boardApi.viewStart();
     expect((boardApi as any).boardState.historyViewerState.isEnabled).toBe(
       true
     );
     expect((boardApi as any).boardState.historyViewerState.plyViewing).toBe(0);
-    expect((boardApi as any).board.state.fen).toBe(
-      'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1'
-    );
+    expect((boardApi as any).board.state.pieces.get('e2')).toBeDefined();
+    expect((boardApi as any).board.state.pieces.get('e7')).toBeDefined();
   });
 
   it('stops viewing history', () => {
-    boardApi.move('e4');
+    boardApi.move('e2e4');
     boardApi.viewHistory(0);
     boardApi.stopViewingHistory();
     expect((boardApi as any).boardState.historyViewerState.isEnabled).toBe(
       false
     );
-    expect((boardApi as any).board.state.fen).toBe(
-      'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1'
+    expect((boardApi as any).board.state.pieces.get('e4')).toBeDefined();
+    expect((boardApi as any).board.state.pieces.get('e2')).toBeUndefined();
+    expect((boardApi as any).board.state.lastMove).toEqual(['e2', 'e4']);
+  });
+
+  it('stops viewing history when undoing the viewed move', () => {
+    boardApi.move('e2e4');
+    boardApi.move('e7e5');
+    boardApi.viewPrevious();
+    boardApi.undoLastMove();
+    expect((boardApi as any).boardState.historyViewerState.isEnabled).toBe(
+      false
     );
+    expect((boardApi as any).board.state.pieces.get('e7')).toBeDefined();
   });
 
   it('enableds viewOnly when viewing history', () => {
     expect((boardApi as any).board.state.viewOnly).toBe(false);
-    boardApi.move('e4');
+    boardApi.move('e2e4');
     boardApi.viewHistory(0);
     expect((boardApi as any).board.state.viewOnly).toBe(true);
   });
 
   it('disableds viewOnly when stopping viewing history if it should be disabled', () => {
     expect((boardApi as any).board.state.viewOnly).toBe(false);
-    boardApi.move('e4');
+    boardApi.move('e2e4');
     boardApi.viewHistory(0);
     boardApi.stopViewingHistory();
     expect((boardApi as any).board.state.viewOnly).toBe(false);
@@ -418,7 +934,7 @@ describe.concurrent('Test the board API', () => {
   it('keeps viewOnly enabled when stopping viewing history if it should be enabled', () => {
     boardApi.setConfig({ viewOnly: true });
     expect((boardApi as any).board.state.viewOnly).toBe(true);
-    boardApi.move('e4');
+    boardApi.move('e2e4');
     boardApi.viewHistory(0);
     boardApi.stopViewingHistory();
     expect((boardApi as any).board.state.viewOnly).toBe(true);
@@ -426,8 +942,8 @@ describe.concurrent('Test the board API', () => {
 
   it('keeps animation enabled if it should be enabled', () => {
     expect((boardApi as any).board.state.animation.enabled).toBe(true);
-    boardApi.move('e4');
-    boardApi.move('e5');
+    boardApi.move('e2e4');
+    boardApi.move('e7e5');
     boardApi.viewStart();
     expect((boardApi as any).board.state.animation.enabled).toBe(true);
     boardApi.stopViewingHistory();
@@ -436,13 +952,142 @@ describe.concurrent('Test the board API', () => {
 
   it('adds a pgn header and checks if it is added', () => {
     boardApi.setPgnInfo({
-      White: 'Deep Blue',
-      Black: 'Kasparov',
-      Date: '1997.05.11',
+      White: 'Alice',
+      Black: 'Bob',
+      Date: '2024.05.11',
     });
-    expect(boardApi.getPgn()).toContain('[White "Deep Blue"]');
-    expect(boardApi.getPgn()).toContain('[Black "Kasparov"]');
-    expect(boardApi.getPgn()).toContain('[Date "1997.05.11"]');
+    expect(boardApi.getPgn()).toContain('[White "Alice"]');
+    expect(boardApi.getPgn()).toContain('[Black "Bob"]');
+    expect(boardApi.getPgn()).toContain('[Date "2024.05.11"]');
+    expect(boardApi.getPgnInfo()).toEqual({
+      White: 'Alice',
+      Black: 'Bob',
+      Date: '2024.05.11',
+    });
+  });
+
+  it('records the game result in the pgn', () => {
+    expect(boardApi.getGameResult()).toBe(undefined);
+    boardApi.move('e2e4');
+    boardApi.claimTimeout('black');
+    expect(boardApi.getIsGameOver()).toBe(true);
+    expect(boardApi.getGameResult()).toStrictEqual({
+      winner: 'white',
+      loser: 'black',
+      reason: 'timeout',
+    });
+    const pgn = boardApi.getPgn();
+    expect(pgn).toContain('[Result "1-0"]');
+    expect(pgn).toContain('[Termination "timeout"]');
+
+    boardApi.resetBoard();
+    expect(boardApi.getGameResult()).toBe(undefined);
+    boardApi.loadPgn(pgn);
+    expect(boardApi.getGameResult()).toStrictEqual({
+      winner: 'white',
+      loser: 'black',
+      reason: 'timeout',
+    });
+  });
+
+  it('writes the result of the current game after loading a record', () => {
+    boardApi.setPosition(
+      warriorPosition({
+        35: { role: 'king', color: 'black', healthPoints: 1 },
+        63: null,
+      })
+    );
+    boardApi.move('d4xd5');
+    const pgn = boardApi.getPgn();
+    expect(pgn).toContain('[Result "1-0"]');
+
+    boardApi.loadPgn(pgn);
+    expect(boardApi.getPgnInfo()).not.toHaveProperty('Result');
+    boardApi.undoLastMove();
+    expect(boardApi.getPgn()).toContain('[Result "*"]');
+    expect(boardApi.getPgn()).not.toContain('Termination');
+
+    boardApi.setPgnInfo({ Termination: 'kingKilled' });
+    boardApi.setPosition(initialPos);
+    expect(boardApi.getPgnInfo()).toEqual({});
+    expect(boardApi.getPgn()).toContain('[Result "*"]');
+  });
+});
+
+describe.concurrent('Test resigning, draw offers and aborting', () => {
+  const wrapper = mountComponent();
+  const boardApi = wrapper.emitted<BoardApi[]>('boardCreated')?.[0][0];
+  if (typeof boardApi === 'undefined') {
+    throw new Error('No Board Api emitted');
+  }
+
+  beforeEach(() => resetBoard(wrapper, boardApi));
+
+  it('locks the board after a resignation', () => {
+    boardApi.move('e2e4');
+    boardApi.resign('white');
+    expect(boardApi.getGameResult()).toStrictEqual({
+      winner: 'black',
+      loser: 'white',
+      reason: 'resignation',
+    });
+    expect((boardApi as any).board.state.movable.color).toBe(undefined);
+    expect(boardApi.move('e7e5')).toBe(false);
+    expect(boardApi.getHistory()).toEqual(['e2e4']);
+    expect(boardApi.getPgn()).toContain('[Result "0-1"]');
+  });
+
+  it('keeps a resignation when undoing', () => {
+    boardApi.move('e2e4');
+    boardApi.move('e7e5');
+    boardApi.undoLastMove();
+    boardApi.resign('black');
+    boardApi.undoLastMove();
+    boardApi.redoLastMove();
+    expect(boardApi.getHistory()).toEqual(['e2e4']);
+    expect(boardApi.getGameResult()?.reason).toBe('resignation');
+    expect((boardApi as any).board.state.movable.color).toBe(undefined);
+    expect(boardApi.getPgn()).toContain('[Termination "resignation"]');
+  });
+
+  it('ends the game when a draw offer is accepted', () => {
+    expect(boardApi.acceptDraw()).toBe(false);
+    expect(boardApi.offerDraw('white')).toBe(true);
+    expect(boardApi.getDrawOffer()).toBe('white');
+    expect(boardApi.acceptDraw()).toBe(true);
+    expect(boardApi.getGameResult()).toStrictEqual({
+      winner: null,
+      loser: null,
+      reason: 'agreement',
+    });
+    expect(boardApi.getPgn()).toContain('[Result "1/2-1/2"]');
+    expect(boardApi.move('e2e4')).toBe(false);
+  });
+
+  it('keeps the game going when a draw offer is declined', () => {
+    boardApi.offerDraw('black');
+    expect(boardApi.declineDraw()).toBe(true);
+    expect(boardApi.getDrawOffer()).toBe(undefined);
+    expect(boardApi.declineDraw()).toBe(false);
+    expect(boardApi.getIsGameOver()).toBe(false);
+
+    // a move withdraws the offer
+    boardApi.offerDraw('white');
+    boardApi.move('e2e4');
+    expect(boardApi.getDrawOffer()).toBe(undefined);
+  });
+
+  it('aborts the game without a result', () => {
+    boardApi.abort();
+    expect(boardApi.getIsAborted()).toBe(true);
+    expect(boardApi.getGameResult()).toBe(undefined);
+    expect(boardApi.move('e2e4')).toBe(false);
+    expect(boardApi.offerDraw('white')).toBe(false);
+    expect(boardApi.getPgn()).toContain('[Termination "aborted"]');
+
+    boardApi.resetBoard();
+    expect(boardApi.getIsAborted()).toBe(false);
+    expect(boardApi.move('e2e4')).toBe(true);
   });
 });
 
@@ -0,0 +1,95 @@
+import { expect, it, describe } from 'vitest';
+import { mount } from '@vue/test-utils';
+import NichessBoardEditor from '@/components/NichessBoardEditor.vue';
+import type BoardApi from '@/classes/BoardApi';
+import { initialPos } from '@/helper/DefaultConfig';
+import { InvalidPositionError } from '@/utils/Position';
+
+describe('Test the board editor', () => {
+  const wrapper = mount(NichessBoardEditor);
+  const boardApi = wrapper.emitted<BoardApi[]>('boardCreated')?.[0][0];
+  if (typeof boardApi === 'undefined') {
+    throw new Error('No board api emitted');
+  }
+
+  it('shows a palette of all twelve pieces', () => {
+    expect(wrapper.findAll('.spare-pieces button')).toHaveLength(12);
+    expect(wrapper.find('.spare-pieces .mage.black').exists()).toBe(true);
+    expect(wrapper.find('.spare-pieces .assassin.white').exists()).toBe(true);
+  });
+
+  it('enables free movement and deleting pieces off the board', () => {
+    expect((boardApi as any).board.state.movable.free).toBe(true);
+    expect((boardApi as any).board.state.draggable.deleteOnDropOff).toBe(true);
+  });
+
+  it('edits health points and the side to move', async () => {
+    expect(boardApi.setPieceHealthPoints('a1', 25)).toBe(true);
+    expect(boardApi.getPosition().squares[0]?.healthPoints).toBe(25);
+    expect(boardApi.setPieceHealthPoints('a4', 25)).toBe(false);
+    for (const healthPoints of [0, -5, 2.5, 61]) {
+      expect(() => boardApi.setPieceHealthPoints('a1', healthPoints)).toThrow(
+        InvalidPositionError
+      );
+    }
+    expect(boardApi.getPosition().squares[0]?.healthPoints).toBe(25);
+
+    await wrapper.find('select').setValue('black');
+    expect(boardApi.getTurnColor()).toBe('black');
+  });
+
+  it('keeps the health points of the input within range', async () => {
+    boardApi.setPosition(initialPos);
+    (boardApi as any).board.selectSquare('a1');
+    const input = wrapper.find('input[type="number"]');
+    await input.setValue('500');
+    expect(boardApi.getPosition().squares[0]?.healthPoints).toBe(60);
+    expect((input.element as HTMLInputElement).value).toBe('60');
+    await input.setValue('0');
+    expect(boardApi.getPosition().squares[0]?.healthPoints).toBe(1);
+    await input.setValue('');
+    expect(boardApi.getPosition().squares[0]?.healthPoints).toBe(1);
+  });
+
+  it('refuses to export an invalid position', async () => {
+    boardApi.setPosition(initialPos);
+    boardApi.removePiece('e8');
+    const exports = wrapper.emitted('export')?.length ?? 0;
+    await wrapper.find('.editor-controls button').trigger('click');
+    expect(wrapper.emitted('export')?.length ?? 0).toBe(exports);
+    expect(wrapper.find('.position-problems').text()).toContain(
+      'black has no king'
+    );
+  });
+
+  it('exports the position', async () => {
+    boardApi.setPosition(initialPos);
+    await wrapper.find('.editor-controls button').trigger('click');
+    expect(wrapper.emitted('export')?.at(-1)).toEqual([initialPos]);
+  });
+});
+
+describe('Test the board editor with a position', () => {
+  it('lists the problems of an invalid position', () => {
+    const wrapper = mount(NichessBoardEditor, {
+      props: { position: initialPos.replace('0-king-10', 'empty') },
+    });
+    expect(wrapper.emitted('boardCreated')).toHaveLength(1);
+    expect(wrapper.find('.position-problems').text()).toContain(
+      'white has no king'
+    );
+  });
+
+  it('loads a new position with its side to move', async () => {
+    const wrapper = mount(NichessBoardEditor, {
+      props: { position: initialPos },
+    });
+    await wrapper.setProps({ position: initialPos.replace(/^0/, '1') });
+    expect((wrapper.find('select').element as HTMLSelectElement).value).toBe(
+      'black'
+    );
+    expect(wrapper.find('.position-problems').exists()).toBe(false);
+  });
+});
+
+export {};
@@ -1,7 +1,8 @@
 import type BoardApi from '@/classes/BoardApi';
 import { expect, it, describe, beforeEach } from 'vitest';
-import { makeStalemate, mountComponent, resetBoard } from './helper/Helper';
-import { moves } from './helper/Constants';
+import { mountComponent, resetBoard } from './helper/Helper';
+import type { CheckEvent } from '@/typings/Chessboard';
+import { warriorPosition } from './helper/Constants';
 
 describe.concurrent('Test the board events', () => {
   const wrapper = mountComponent();
@@ -13,34 +14,87 @@ describe.concurrent('Test the board events', () => {
   // reset the board and events after each test
   beforeEach(() => resetBoard(wrapper, boardApi));
 
-  it('emits checkmate event', () => {
-    boardApi.move('e4');
-    boardApi.move('e5');
-    boardApi.move('Bc4');
-    boardApi.move('c6');
-    boardApi.move('Qh5');
-    boardApi.move('b6');
-    boardApi.move('Qxf7');
+  it('emits gameOver event when a king is killed', () => {
+    boardApi.setPosition(
+      warriorPosition({
+        35: { role: 'king', color: 'black', healthPoints: 1 },
+        63: null,
+      })
+    );
+    expect(wrapper.emitted('gameOver')).toBe(undefined);
+
+    boardApi.move('d4xd5');
+    expect(wrapper.emitted('gameOver')).toStrictEqual([
+      [{ winner: 'white', loser: 'black', reason: 'kingKilled' }],
+    ]);
+  });
 
-    expect(wrapper.emitted('checkmate')).length(1);
+  it('emits gameOver event once per result', () => {
+    boardApi.move('e2e4');
+    boardApi.resign('black');
+    boardApi.viewHistory(0);
+    boardApi.stopViewingHistory();
+    boardApi.startAnalysis();
+    boardApi.stopAnalysis();
+    boardApi.setEngine(undefined);
+    expect(wrapper.emitted('gameOver')).toStrictEqual([
+      [{ winner: 'white', loser: 'black', reason: 'resignation' }],
+    ]);
   });
 
   it('emits check event', () => {
-    boardApi.move('e4');
-    boardApi.move('e5');
-    boardApi.move('Bc4');
-    boardApi.move('f6');
-    boardApi.move('Qh5');
+    boardApi.setPosition(
+      warriorPosition({
+        35: null,
+        43: { role: 'king', color: 'black', healthPoints: 10 },
+        63: null,
+      })
+    );
+    expect(wrapper.emitted('check')).toBe(undefined);
+
+    boardApi.move('d4d5');
+    const checks = wrapper.emitted<CheckEvent[]>('check');
+    expect(checks).toHaveLength(1);
+    const check = checks?.[0][0];
+    expect(check?.color).toBe('black');
+    expect(check?.threats).toStrictEqual(boardApi.getKingThreats('black'));
+    expect(check?.threats[0].attacker).toStrictEqual({
+      square: 'd5',
+      role: 'warrior',
+      color: 'white',
+    });
+    expect(check?.threats[0].target.square).toBe('d6');
+    expect(check?.threats[0].damage).toBeGreaterThan(0);
+    expect((boardApi as any).board.state.check).toBe('d6');
 
-    expect(wrapper.emitted('check')).length(1);
+    // the history viewer highlights the check of the viewed position
+    boardApi.viewHistory(0);
+    expect((boardApi as any).board.state.check).toBeUndefined();
+    boardApi.stopViewingHistory();
+    expect((boardApi as any).board.state.check).toBe('d6');
+
+    // refreshing the board without a new position doesn't emit check again
+    boardApi.startAnalysis();
+    boardApi.stopAnalysis();
+    boardApi.setEngine(undefined);
+    expect(wrapper.emitted('check')).toHaveLength(1);
   });
 
-  it('emits draw event', () => {
-    moves.forEach((move) => {
-      boardApi.move(move);
-    });
-    expect(wrapper.emitted('draw')).toHaveLength(1);
-    expect(wrapper.emitted('check')?.length).toBeGreaterThanOrEqual(1);
+  it('emits draw offer and abort events', () => {
+    boardApi.offerDraw('white');
+    boardApi.declineDraw();
+    expect(wrapper.emitted('drawOffered')).toStrictEqual([['white']]);
+    expect(wrapper.emitted('drawDeclined')).toStrictEqual([['white']]);
+
+    boardApi.offerDraw('black');
+    boardApi.acceptDraw();
+    expect(wrapper.emitted('gameOver')).toStrictEqual([
+      [{ winner: null, loser: null, reason: 'agreement' }],
+    ]);
+
+    boardApi.resetBoard();
+    boardApi.abort();
+    expect(wrapper.emitted('gameAborted')).toHaveLength(1);
   });
 
   it('emits move event', () => {
@@ -48,10 +102,43 @@ describe.concurrent('Test the board events', () => {
     expect(wrapper.emitted('move')).toHaveLength(1);
   });
 
-  // stalemate
-  it('emits stalemate event', () => {
-    makeStalemate(boardApi);
-    expect(wrapper.emitted('stalemate')).toHaveLength(1);
+  it('emits attack events with damage details', () => {
+    boardApi.setPosition(
+      warriorPosition({ 35: { role: 'pawn', color: 'black', healthPoints: 1 } })
+    );
+
+    boardApi.move('a1a2');
+    expect(wrapper.emitted('attack')).toBe(undefined);
+
+    boardApi.move('h8h7');
+    boardApi.move('d4xd5');
+    const lastMove = boardApi.getLastMove();
+    expect(lastMove?.kind).toBe('ability');
+    expect(wrapper.emitted('attack')).toStrictEqual([
+      [
+        {
+          attacker: { square: 'd4', role: 'warrior', color: 'white' },
+          target: { square: 'd5', role: 'pawn', color: 'black' },
+          damage: 1,
+          targetHealthBefore: 1,
+          targetHealthAfter: 0,
+          targetKilled: true,
+          attackerMoved: lastMove?.pieceMoved,
+        },
+      ],
+    ]);
+    expect(wrapper.emitted('pieceKilled')).toStrictEqual(
+      wrapper.emitted('attack')
+    );
+    expect(wrapper.emitted('kingDamaged')).toBe(undefined);
+  });
+
+  it('emits gameOver event on timeout', () => {
+    boardApi.move('e2e4');
+    boardApi.claimTimeout('black');
+    expect(wrapper.emitted('gameOver')).toStrictEqual([
+      [{ winner: 'white', loser: 'black', reason: 'timeout' }],
+    ]);
   });
 
   // promotion
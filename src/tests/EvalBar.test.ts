@@ -0,0 +1,43 @@
+import { expect, it, describe, vi } from 'vitest';
+import { flushPromises, mount } from '@vue/test-utils';
+import NichessEvalBar from '@/components/NichessEvalBar.vue';
+import type BoardApi from '@/classes/BoardApi';
+import type { NichessEngine } from '@/typings/Engine';
+import { mountComponent } from './helper/Helper';
+
+describe('Test the evaluation bar', () => {
+  const wrapper = mountComponent();
+  const boardApi = wrapper.emitted<BoardApi[]>('boardCreated')?.[0][0];
+  if (typeof boardApi === 'undefined') {
+    throw new Error('No Board Api emitted');
+  }
+  const evalBar = mount(NichessEvalBar, {
+    props: { boardApi, showLines: true },
+  });
+
+  it('shows the score and lines of the analysis', async () => {
+    expect(evalBar.find('.eval-score').text()).toBe('…');
+
+    const engine: NichessEngine = {
+      setPosition: vi.fn(),
+      go: vi.fn(async () => ({
+        bestAction: null,
+        score: 100,
+        pv: ['e2e3', 'e7e6'],
+        depth: 1,
+      })),
+      stop: vi.fn(),
+    };
+    boardApi.setEngine(engine);
+    boardApi.startAnalysis();
+    await flushPromises();
+
+    expect(evalBar.find('.eval-score').text()).toBe('+100');
+    expect(evalBar.find('.eval-meter').attributes('aria-valuenow')).toBe('75');
+    expect(evalBar.find('.eval-lines li').text()).toBe('+100 e2e3 e7e6');
+
+    boardApi.stopAnalysis();
+    await flushPromises();
+    expect(evalBar.find('.eval-lines').exists()).toBe(false);
+  });
+});
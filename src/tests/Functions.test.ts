@@ -2,20 +2,84 @@
 import { expect, it, describe } from 'vitest';
 import {
   getThreats,
+  previewAttack,
+  playAction,
   isObject,
   deepCopy,
   deepMergeConfig,
   deepDiffConfig,
 } from '@/helper/Board';
-import {
-  possibleFirstMovesWhite,
-  possibleFirstThreatsWhite,
-} from './helper/Constants';
+import { Api as NichessApi } from 'nichess';
+import { serializePosition } from '@/utils/Position';
+import { warriorPosition } from './helper/Constants';
 
 describe.concurrent('Test getThreats', () => {
-  it('calculate threats', async () => {
-    const threats = getThreats(possibleFirstMovesWhite);
-    expect(threats).toEqual(possibleFirstThreatsWhite);
+  function gameWithPieces(pieces) {
+    const squares = new Array(64).fill(null);
+    for (const [index, piece] of Object.entries(pieces)) {
+      squares[index] = piece;
+    }
+    const game = new NichessApi();
+    game.boardFromString(serializePosition({ turn: 'white', squares }));
+    return game;
+  }
+
+  it('draws circles for the starting moves', async () => {
+    const game = new NichessApi();
+    game.reset();
+    const threats = getThreats(game);
+    expect(threats.length).toBeGreaterThan(0);
+    expect(threats.every((threat) => threat.brush === 'yellow')).toBe(true);
+    expect(threats.every((threat) => threat.dest === undefined)).toBe(true);
+    expect(new Set(threats.map((threat) => threat.orig)).size).toBe(
+      threats.length
+    );
+  });
+
+  it('draws labelled arrows for attacks', async () => {
+    const game = gameWithPieces({
+      0: { role: 'king', color: 'white', healthPoints: 10 },
+      63: { role: 'king', color: 'black', healthPoints: 10 },
+      27: { role: 'warrior', color: 'white', healthPoints: 60 },
+      35: { role: 'pawn', color: 'black', healthPoints: 30 },
+    });
+    const attack = getThreats(game).find((threat) => threat.dest === 'd5');
+    expect(attack?.orig).toBe('d4');
+    expect(attack?.brush).toMatch(/^(red|purple)$/);
+    expect(attack?.label?.text).toMatch(/^-\d+$/);
+  });
+
+  it('uses a distinct brush for kills and king hits', async () => {
+    const game = gameWithPieces({
+      0: { role: 'king', color: 'white', healthPoints: 10 },
+      63: { role: 'king', color: 'black', healthPoints: 10 },
+      27: { role: 'warrior', color: 'white', healthPoints: 60 },
+      35: { role: 'pawn', color: 'black', healthPoints: 1 },
+    });
+    const threats = getThreats(game);
+    expect(threats.find((threat) => threat.dest === 'd5')).toEqual({
+      orig: 'd4',
+      dest: 'd5',
+      brush: 'purple',
+      label: { text: '-1' },
+    });
+  });
+});
+
+describe.concurrent('Test previewAttack', () => {
+  it('returns the outcome of an attack without playing it', async () => {
+    const game = new NichessApi();
+    game.boardFromString(serializePosition(warriorPosition()));
+    const before = game.boardToString();
+
+    const preview = previewAttack(game, 27, 35);
+    expect(game.boardToString()).toBe(before);
+    expect(preview?.attacker.square).toBe('d4');
+    expect(preview?.targetHealthBefore).toBe(30);
+    expect(preview?.targetHealthAfter).toBe(
+      playAction(game, 27, 35).targetHealthAfter
+    );
+    expect(previewAttack(game, 0, 1)).toBe(undefined);
   });
 });
 
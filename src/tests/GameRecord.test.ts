@@ -0,0 +1,207 @@
+import { expect, it, describe } from 'vitest';
+import { PieceType } from 'nichess';
+import {
+  GameRecordParseError,
+  gameResultToRecordResult,
+  parseGameRecord,
+  recordResultToGameResult,
+  serializeGameRecord,
+} from '@/utils/GameRecord';
+import type { HistoryMove } from '@/typings/Chessboard';
+
+const pawnMove: HistoryMove = {
+  from: 'e2',
+  to: 'e4',
+  pieceType: PieceType.P1_PAWN,
+  role: 'pawn',
+  color: 'white',
+  kind: 'move',
+  targetType: PieceType.NO_PIECE,
+  targetRole: null,
+  targetHealthBefore: 0,
+  targetHealthAfter: 0,
+  targetKilled: false,
+  pieceMoved: true,
+  before: '',
+  after: '',
+};
+
+const killingAbility: HistoryMove = {
+  from: 'd8',
+  to: 'd2',
+  pieceType: PieceType.P2_MAGE,
+  role: 'mage',
+  color: 'black',
+  kind: 'ability',
+  targetType: PieceType.P1_PAWN,
+  targetRole: 'pawn',
+  targetHealthBefore: 30,
+  targetHealthAfter: 0,
+  targetKilled: true,
+  pieceMoved: false,
+  before: '',
+  after: '',
+};
+
+describe.concurrent('Test serializeGameRecord', () => {
+  it('writes headers in the standard order', () => {
+    const record = serializeGameRecord(
+      { Black: 'Bob', Annotator: 'Carol', White: 'Alice', Result: '1-0' },
+      []
+    );
+    expect(record).toBe(
+      '[White "Alice"]\n[Black "Bob"]\n[Result "1-0"]\n[Annotator "Carol"]\n\n1-0'
+    );
+  });
+
+  it('writes damage and kills', () => {
+    expect(serializeGameRecord({}, [pawnMove, killingAbility])).toBe(
+      '1. e2e4 d8xd2(-30)# *'
+    );
+  });
+
+  it('numbers a game starting with black', () => {
+    expect(serializeGameRecord({}, [killingAbility, pawnMove])).toBe(
+      '1... d8xd2(-30)# 2. e2e4 *'
+    );
+  });
+
+  it('escapes header values', () => {
+    expect(serializeGameRecord({ Event: 'The "Final"' }, [])).toBe(
+      '[Event "The \\"Final\\""]\n\n*'
+    );
+  });
+});
+
+describe.concurrent('Test parseGameRecord', () => {
+  it('reads headers, moves and the result', () => {
+    const record = parseGameRecord(
+      '[White "Alice"]\n[Black "Bob"]\n\n1. e2e4 d8xd2(-30)# 0-1'
+    );
+    expect(record.headers).toEqual({ White: 'Alice', Black: 'Bob' });
+    expect(record.result).toBe('0-1');
+    expect(record.moves).toEqual([
+      {
+        from: 'e2',
+        to: 'e4',
+        kind: 'move',
+        damage: undefined,
+        killed: false,
+        line: 4,
+        column: 4,
+      },
+      {
+        from: 'd8',
+        to: 'd2',
+        kind: 'ability',
+        damage: 30,
+        killed: true,
+        line: 4,
+        column: 9,
+      },
+    ]);
+  });
+
+  it('round trips a serialized record', () => {
+    const text = serializeGameRecord({ Event: 'The "Final"', Result: '0-1' }, [
+      pawnMove,
+      killingAbility,
+    ]);
+    const record = parseGameRecord(text);
+    expect(record.headers.Event).toBe('The "Final"');
+    expect(record.result).toBe('0-1');
+    expect(record.moves.map((move) => `${move.from}${move.to}`)).toEqual([
+      'e2e4',
+      'd8d2',
+    ]);
+  });
+
+  it('tolerates comments, annotations and missing move numbers', () => {
+    const record = parseGameRecord(
+      '{ opening } 1.E2E4! ; a comment\r\n  e7e5?!   2... d2d4'
+    );
+    expect(record.moves.map((move) => `${move.from}${move.to}`)).toEqual([
+      'e2e4',
+      'e7e5',
+      'd2d4',
+    ]);
+    expect(record.result).toBe('*');
+  });
+
+  it.each([
+    { text: '[White Alice]', line: 1, column: 1 },
+    { text: '1. e2e4\n2. e9e5', line: 2, column: 4 },
+    { text: '1. e2e4 {unterminated', line: 1, column: 9 },
+    { text: '1. e2e4 1-0 e7e5', line: 1, column: 13 },
+    { text: '1. e2e4\n[White "Alice"]', line: 2, column: 1 },
+  ])('reports $text at $line:$column', ({ text, line, column }) => {
+    let error: unknown;
+    try {
+      parseGameRecord(text);
+    } catch (thrown) {
+      error = thrown;
+    }
+    expect(error).toBeInstanceOf(GameRecordParseError);
+    expect((error as GameRecordParseError).line).toBe(line);
+    expect((error as GameRecordParseError).column).toBe(column);
+  });
+});
+
+describe.concurrent('Test game results in records', () => {
+  it('writes the result of a game', () => {
+    expect(gameResultToRecordResult(undefined)).toBe('*');
+    expect(
+      gameResultToRecordResult({
+        winner: 'black',
+        loser: 'white',
+        reason: 'kingKilled',
+      })
+    ).toBe('0-1');
+    expect(
+      gameResultToRecordResult({
+        winner: null,
+        loser: null,
+        reason: 'drawByRule',
+      })
+    ).toBe('1/2-1/2');
+  });
+
+  it('reads the result and termination of a record', () => {
+    expect(recordResultToGameResult('*')).toBe(undefined);
+    expect(recordResultToGameResult('1-0', 'timeout')).toStrictEqual({
+      winner: 'white',
+      loser: 'black',
+      reason: 'timeout',
+    });
+    expect(recordResultToGameResult('0-1')).toStrictEqual({
+      winner: 'black',
+      loser: 'white',
+      reason: 'resignation',
+    });
+    expect(recordResultToGameResult('1/2-1/2', 'unknown')).toStrictEqual({
+      winner: null,
+      loser: null,
+      reason: 'agreement',
+    });
+    expect(recordResultToGameResult('1/2-1/2', 'constructor')).toStrictEqual({
+      winner: null,
+      loser: null,
+      reason: 'agreement',
+    });
+  });
+
+  it('reads the terminations of a match', () => {
+    expect(recordResultToGameResult('1/2-1/2', 'maxPlies')).toStrictEqual({
+      winner: null,
+      loser: null,
+      reason: 'drawByRule',
+    });
+    expect(recordResultToGameResult('0-1', 'illegalAction')).toStrictEqual({
+      winner: 'black',
+      loser: 'white',
+      reason: 'resignation',
+    });
+  });
+});
+
+export {};
@@ -0,0 +1,111 @@
+import { expect, it, describe } from 'vitest';
+import { Api as NichessApi, NUM_SQUARES } from 'nichess';
+import { squareIndexToKey } from '@/helper/Board';
+import { estimateEloDifference, runMatch, serializeMatch } from '@/utils/Match';
+import { parseGameRecord, recordResultToGameResult } from '@/utils/GameRecord';
+import { serializePosition, startingPosition } from '@/utils/Position';
+import type { NichessEngine } from '@/typings/Engine';
+import { warriorPosition } from './helper/Constants';
+
+// plays the first legal action it finds
+function firstActionEngine(): NichessEngine {
+  const game = new NichessApi();
+  return {
+    setPosition: (position) => game.boardFromString(position),
+    go: async () => {
+      for (let srcIdx = 0; srcIdx < NUM_SQUARES; srcIdx++) {
+        const [action] = game.legalActionsBySquare(srcIdx);
+        if (action) {
+          return {
+            bestAction: {
+              from: squareIndexToKey(srcIdx),
+              to: squareIndexToKey(action.dstIdx),
+            },
+            score: 0,
+            pv: [],
+          };
+        }
+      }
+      return { bestAction: null, score: 0, pv: [] };
+    },
+    stop: () => undefined,
+  };
+}
+
+function illegalActionEngine(): NichessEngine {
+  return {
+    setPosition: () => undefined,
+    go: async () => ({
+      bestAction: { from: 'a1', to: 'a8' },
+      score: 0,
+      pv: [],
+    }),
+    stop: () => undefined,
+  };
+}
+
+describe.concurrent('Test the match runner', () => {
+  it('estimates the Elo difference', () => {
+    expect(estimateEloDifference(5, 10)).toBeCloseTo(0);
+    expect(estimateEloDifference(7.5, 10)).toBeCloseTo(190.85, 1);
+    expect(estimateEloDifference(2.5, 10)).toBeCloseTo(-190.85, 1);
+    expect(estimateEloDifference(10, 10)).toBeCloseTo(
+      estimateEloDifference(9.5, 10)
+    );
+    expect(estimateEloDifference(0, 0)).toBe(0);
+  });
+
+  it('alternates colors and scores the games', async () => {
+    const match = await runMatch(firstActionEngine(), illegalActionEngine(), {
+      games: 2,
+      names: ['First', 'Illegal'],
+    });
+    expect(match.games.map((game) => game.white)).toEqual(['A', 'B']);
+    expect(match.games.map((game) => game.result)).toEqual([
+      { winner: 'white', loser: 'black', reason: 'illegalAction' },
+      { winner: 'black', loser: 'white', reason: 'illegalAction' },
+    ]);
+    expect(match.games[0].history).toHaveLength(1);
+    expect(match.games[1].history).toHaveLength(0);
+    expect(match).toMatchObject({ winsA: 2, winsB: 0, draws: 0, scoreA: 2 });
+    expect(match.eloDifference).toBeGreaterThan(0);
+    expect(match.games[1].record).toContain('[White "Illegal"]');
+  });
+
+  it('draws after maxPlies and writes the game records', async () => {
+    const openings = [
+      startingPosition(),
+      serializePosition(warriorPosition({ 27: null, 35: null })),
+    ];
+    const match = await runMatch(firstActionEngine(), firstActionEngine(), {
+      games: 4,
+      openings,
+      maxPlies: 4,
+      headers: { Event: 'Tuning run' },
+    });
+    expect(match.games.map((game) => game.opening)).toEqual([
+      openings[0],
+      openings[0],
+      openings[1],
+      openings[1],
+    ]);
+    expect(match).toMatchObject({ draws: 4, scoreA: 2, scoreB: 2 });
+    expect(match.eloDifference).toBeCloseTo(0);
+
+    const records = serializeMatch(match).split('\n\n[');
+    expect(records).toHaveLength(4);
+    const record = parseGameRecord(match.games[2].record);
+    expect(record.headers).toMatchObject({
+      Event: 'Tuning run',
+      Round: '3',
+      White: 'Engine A',
+      Termination: 'maxPlies',
+      Position: openings[1],
+    });
+    expect(record.result).toBe('1/2-1/2');
+    expect(record.moves).toHaveLength(4);
+    expect(
+      recordResultToGameResult(record.result, record.headers.Termination)
+    ).toStrictEqual({ winner: null, loser: null, reason: 'drawByRule' });
+  });
+});
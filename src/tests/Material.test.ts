@@ -0,0 +1,24 @@
+import { expect, it, describe } from 'vitest';
+import { countMaterial } from '@/utils/Material';
+import { parsePosition, startingPosition } from '@/utils/Position';
+
+describe.concurrent('Test countMaterial', () => {
+  it('counts the starting position', () => {
+    const count = countMaterial(parsePosition(startingPosition()));
+    expect(count.white).toStrictEqual({
+      pieces: 16,
+      healthPoints: 520,
+      material: 520,
+    });
+    expect(count.black).toStrictEqual(count.white);
+  });
+
+  it('weights health points by role', () => {
+    const count = countMaterial(parsePosition(startingPosition()), {
+      warrior: 0.5,
+      pawn: 0,
+    });
+    expect(count.white.healthPoints).toBe(520);
+    expect(count.white.material).toBe(220);
+  });
+});
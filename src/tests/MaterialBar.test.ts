@@ -0,0 +1,59 @@
+import { expect, it, describe } from 'vitest';
+import { mount } from '@vue/test-utils';
+import { nextTick } from 'vue';
+import NichessMaterialBar from '@/components/NichessMaterialBar.vue';
+import type BoardApi from '@/classes/BoardApi';
+import { warriorPosition } from './helper/Constants';
+import { mountComponent } from './helper/Helper';
+
+describe('Test the material bar', () => {
+  const wrapper = mountComponent();
+  const boardApi = wrapper.emitted<BoardApi[]>('boardCreated')?.[0][0];
+  if (typeof boardApi === 'undefined') {
+    throw new Error('No Board Api emitted');
+  }
+  const materialBar = mount(NichessMaterialBar, {
+    props: { boardApi, theme: 'dark-gold-1' },
+  });
+
+  function healthPoints(color: string): string {
+    return materialBar.find(`.material-side.${color} .health-points`).text();
+  }
+
+  it('applies the theme', () => {
+    expect(materialBar.classes()).toContain('dark-gold-1');
+  });
+
+  it('follows moves, undo, redo and the history viewer', async () => {
+    boardApi.setPosition(warriorPosition());
+    await nextTick();
+    expect(healthPoints('white')).toBe('70');
+    expect(healthPoints('black')).toBe('40');
+
+    boardApi.setPieceHealthPoints('d5', 1);
+    boardApi.move('d4xd5');
+    await nextTick();
+    expect(healthPoints('black')).toBe('10');
+    expect(
+      materialBar.findAll('.material-side.white .killed-pieces span')
+    ).length(1);
+    expect(materialBar.find('.killed-pieces .pawn.black').exists()).toBe(true);
+
+    boardApi.viewHistory(0);
+    await nextTick();
+    expect(healthPoints('black')).toBe('11');
+    expect(materialBar.findAll('.killed-pieces span')).length(0);
+
+    boardApi.stopViewingHistory();
+    boardApi.undoLastMove();
+    await nextTick();
+    expect(healthPoints('black')).toBe('11');
+
+    boardApi.redoLastMove();
+    await nextTick();
+    expect(healthPoints('black')).toBe('10');
+    expect(materialBar.find('.balance-bar').attributes('aria-valuenow')).toBe(
+      '88'
+    );
+  });
+});
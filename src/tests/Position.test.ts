@@ -0,0 +1,148 @@
+import { expect, it, describe } from 'vitest';
+import {
+  PositionParseError,
+  parsePosition,
+  serializePosition,
+  startingPosition,
+  validatePosition,
+} from '@/utils/Position';
+import type { NichessPosition } from '@/typings/Position';
+
+function emptyPosition(): NichessPosition {
+  return { turn: 'white', squares: new Array(64).fill(null) };
+}
+
+describe.concurrent('Test parsePosition', () => {
+  it('reads the starting position', () => {
+    const position = parsePosition(startingPosition());
+    expect(position.turn).toBe('white');
+    expect(position.squares).toHaveLength(64);
+    expect(position.squares[0]).toEqual({
+      role: 'warrior',
+      color: 'white',
+      healthPoints: 60,
+    });
+    expect(position.squares[4]?.role).toBe('king');
+    expect(position.squares[32]).toBeNull();
+    expect(position.squares[60]).toEqual({
+      role: 'king',
+      color: 'black',
+      healthPoints: 10,
+    });
+  });
+
+  it('reads the side to move', () => {
+    const position = emptyPosition();
+    position.turn = 'black';
+    expect(parsePosition(serializePosition(position)).turn).toBe('black');
+  });
+
+  it.each([
+    { position: '0-warrior-60,empty', message: 'missing "|"' },
+    { position: '2|' + 'empty,'.repeat(64), message: 'side to move' },
+    { position: '0|' + 'empty,'.repeat(63), message: 'expected 64 squares' },
+    {
+      position: '0|0-rook-60,' + 'empty,'.repeat(63),
+      message: 'square a1 (0) has unknown piece "rook"',
+    },
+    {
+      position: '0|empty,0-pawn,' + 'empty,'.repeat(62),
+      message: 'square b1 (1) has malformed token "0-pawn"',
+    },
+  ])('rejects $position', ({ position, message }) => {
+    expect(() => parsePosition(position)).toThrowError(PositionParseError);
+    expect(() => parsePosition(position)).toThrowError(message);
+  });
+});
+
+describe.concurrent('Test serializePosition', () => {
+  it('round trips the starting position', () => {
+    const position = startingPosition();
+    expect(serializePosition(parsePosition(position))).toBe(position);
+  });
+
+  it('round trips a position object', () => {
+    const position = emptyPosition();
+    position.turn = 'black';
+    position.squares[4] = { role: 'king', color: 'white', healthPoints: 10 };
+    position.squares[60] = { role: 'king', color: 'black', healthPoints: 3 };
+    position.squares[27] = { role: 'mage', color: 'black', healthPoints: 7 };
+    expect(parsePosition(serializePosition(position))).toEqual(position);
+  });
+
+  it('rejects a wrong number of squares', () => {
+    expect(() =>
+      serializePosition({ turn: 'white', squares: [null] })
+    ).toThrowError(PositionParseError);
+  });
+});
+
+describe.concurrent('Test validatePosition', () => {
+  function kingsOnly(): NichessPosition {
+    const position = emptyPosition();
+    position.squares[4] = { role: 'king', color: 'white', healthPoints: 10 };
+    position.squares[60] = { role: 'king', color: 'black', healthPoints: 10 };
+    return position;
+  }
+
+  it('accepts the starting position', () => {
+    expect(validatePosition(startingPosition())).toEqual([]);
+    expect(validatePosition(parsePosition(startingPosition()))).toEqual([]);
+  });
+
+  it('reports missing and duplicate kings', () => {
+    const position = kingsOnly();
+    position.squares[4] = null;
+    position.squares[59] = { role: 'king', color: 'black', healthPoints: 10 };
+    expect(validatePosition(position)).toEqual([
+      { code: 'missingKing', message: 'white has no king', color: 'white' },
+      {
+        code: 'duplicateKing',
+        message: 'black has 2 kings',
+        color: 'black',
+      },
+    ]);
+  });
+
+  it.each([0, -5, 11])('reports a king with %i health points', (hp) => {
+    const position = kingsOnly();
+    position.squares[4] = { role: 'king', color: 'white', healthPoints: hp };
+    const problems = validatePosition(position);
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toMatchObject({ code: 'healthPoints', square: 'e1' });
+  });
+
+  it('reports pawns on their own back rank', () => {
+    const position = kingsOnly();
+    position.squares[0] = { role: 'pawn', color: 'white', healthPoints: 30 };
+    position.squares[63] = { role: 'pawn', color: 'black', healthPoints: 30 };
+    position.squares[56] = { role: 'pawn', color: 'white', healthPoints: 30 };
+    expect(validatePosition(position).map((problem) => problem.square)).toEqual(
+      ['a1', 'h8']
+    );
+  });
+
+  it('reports every malformed token and a wrong square count', () => {
+    const problems = validatePosition(
+      '0|0-rook-60,0-pawn,' + 'empty,'.repeat(61)
+    );
+    expect(problems.map((problem) => problem.code)).toEqual([
+      'squareCount',
+      'malformed',
+      'malformed',
+    ]);
+    expect(problems[1].square).toBe('a1');
+    expect(problems[2].square).toBe('b1');
+  });
+
+  it('reports an unreadable string', () => {
+    expect(validatePosition('not a position')).toEqual([
+      {
+        code: 'malformed',
+        message: 'Invalid position: missing "|" after the side to move',
+      },
+    ]);
+  });
+});
+
+export {};
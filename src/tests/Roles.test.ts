@@ -0,0 +1,33 @@
+import { expect, it, describe } from 'vitest';
+import { PieceType } from 'nichess';
+import {
+  nichessRoles,
+  pieceTypeToColor,
+  pieceTypeToRole,
+  roleToPieceType,
+} from '@/utils/Roles';
+
+describe.concurrent('Test the nichess role mapping', () => {
+  it('maps piece types to nichess roles', () => {
+    expect(pieceTypeToRole(PieceType.P1_MAGE)).toBe('mage');
+    expect(pieceTypeToRole(PieceType.P2_WARRIOR)).toBe('warrior');
+    expect(pieceTypeToRole(PieceType.P2_ASSASSIN)).toBe('assassin');
+    expect(pieceTypeToRole(PieceType.NO_PIECE)).toBe(undefined);
+  });
+
+  it('maps piece types to colors', () => {
+    expect(pieceTypeToColor(PieceType.P1_KING)).toBe('white');
+    expect(pieceTypeToColor(PieceType.P2_KING)).toBe('black');
+    expect(pieceTypeToColor(PieceType.NO_PIECE)).toBe(undefined);
+  });
+
+  it('round trips every role and color', () => {
+    for (const role of nichessRoles) {
+      for (const color of ['white', 'black'] as const) {
+        const pieceType = roleToPieceType(role, color);
+        expect(pieceTypeToRole(pieceType)).toBe(role);
+        expect(pieceTypeToColor(pieceType)).toBe(color);
+      }
+    }
+  });
+});
@@ -0,0 +1,93 @@
+import { expect, it, describe, vi } from 'vitest';
+import { WorkerEngine, serveEngine } from '@/utils/WorkerEngine';
+import type {
+  EngineResult,
+  EngineWorkerRequest,
+  EngineWorkerResponse,
+  EngineWorkerScope,
+  NichessEngine,
+} from '@/typings/Engine';
+
+const result: EngineResult = {
+  bestAction: { from: 'd4', to: 'd5' },
+  score: 30,
+  pv: ['d4xd5'],
+};
+
+// a worker and its global scope passing messages to each other, with the engine served in the scope
+function connectedWorker(engine: NichessEngine): Worker {
+  const workerListeners: ((event: MessageEvent) => void)[] = [];
+  const errorListeners: ((event: ErrorEvent) => void)[] = [];
+  const scopeListeners: ((event: MessageEvent) => void)[] = [];
+  const scope: EngineWorkerScope = {
+    postMessage: (message: EngineWorkerResponse) =>
+      workerListeners.forEach((listener) =>
+        listener({ data: message } as MessageEvent)
+      ),
+    addEventListener: (_type, listener) => scopeListeners.push(listener),
+  };
+  serveEngine(engine, scope);
+  return {
+    postMessage: (message: EngineWorkerRequest) =>
+      scopeListeners.forEach((listener) =>
+        listener({ data: message } as MessageEvent)
+      ),
+    addEventListener: (type: string, listener: (event: never) => void) =>
+      type === 'error'
+        ? errorListeners.push(listener as (event: ErrorEvent) => void)
+        : workerListeners.push(listener as (event: MessageEvent) => void),
+    dispatchEvent: (event: ErrorEvent) =>
+      errorListeners.forEach((listener) => listener(event)),
+    terminate: vi.fn(),
+  } as unknown as Worker;
+}
+
+describe.concurrent('Test the Web Worker engine adapter', () => {
+  it('searches the position set in the worker', async () => {
+    const engine: NichessEngine = {
+      setPosition: vi.fn(),
+      go: vi.fn(async () => result),
+      stop: vi.fn(),
+    };
+    const workerEngine = new WorkerEngine(connectedWorker(engine));
+
+    await workerEngine.setPosition('0|position');
+    expect(await workerEngine.go({ depth: 3 })).toEqual(result);
+    expect(engine.setPosition).toHaveBeenCalledWith('0|position');
+    expect(engine.go).toHaveBeenCalledWith({ depth: 3 });
+  });
+
+  it('forwards stop to the engine', () => {
+    const engine: NichessEngine = {
+      setPosition: vi.fn(),
+      go: vi.fn(async () => result),
+      stop: vi.fn(),
+    };
+    new WorkerEngine(connectedWorker(engine)).stop();
+    expect(engine.stop).toHaveBeenCalled();
+  });
+
+  it('rejects when the engine fails', async () => {
+    const engine: NichessEngine = {
+      setPosition: vi.fn(),
+      go: vi.fn(async () => {
+        throw new Error('no position');
+      }),
+      stop: vi.fn(),
+    };
+    const workerEngine = new WorkerEngine(connectedWorker(engine));
+    await expect(workerEngine.go()).rejects.toThrow('no position');
+  });
+
+  it('rejects pending searches when the worker crashes', async () => {
+    const engine: NichessEngine = {
+      setPosition: vi.fn(),
+      go: () => new Promise<EngineResult>(() => undefined),
+      stop: vi.fn(),
+    };
+    const worker = connectedWorker(engine);
+    const search = new WorkerEngine(worker).go();
+    worker.dispatchEvent({ message: 'out of memory' } as ErrorEvent);
+    await expect(search).rejects.toThrow('out of memory');
+  });
+});
@@ -1,251 +1,5 @@
-import type { Move } from 'chess.js';
 import type { SquareKey } from '@/typings/Chessboard';
-
-export const possibleFirstMovesWhite: Move[] = [
-  {
-    before: '',
-    after: '',
-    color: 'w',
-    from: 'a2',
-    to: 'a3',
-    flags: 'n',
-    piece: 'p',
-    san: 'a3',
-    lan: 'a2a3',
-  },
-  {
-    before: '',
-    after: '',
-    color: 'w',
-    from: 'a2',
-    to: 'a4',
-    flags: 'b',
-    piece: 'p',
-    san: 'a4',
-    lan: 'a2a4',
-  },
-  {
-    before: '',
-    after: '',
-    color: 'w',
-    from: 'b2',
-    to: 'b3',
-    flags: 'n',
-    piece: 'p',
-    san: 'b3',
-    lan: 'b2b3',
-  },
-  {
-    before: '',
-    after: '',
-    color: 'w',
-    from: 'b2',
-    to: 'b4',
-    flags: 'b',
-    piece: 'p',
-    san: 'b4',
-    lan: 'b2b4',
-  },
-  {
-    before: '',
-    after: '',
-    color: 'w',
-    from: 'c2',
-    to: 'c3',
-    flags: 'n',
-    piece: 'p',
-    san: 'c3',
-    lan: 'c2c3',
-  },
-  {
-    before: '',
-    after: '',
-    color: 'w',
-    from: 'c2',
-    to: 'c4',
-    flags: 'b',
-    piece: 'p',
-    san: 'c4',
-    lan: 'c2c4',
-  },
-  {
-    before: '',
-    after: '',
-    color: 'w',
-    from: 'd2',
-    to: 'd3',
-    flags: 'n',
-    piece: 'p',
-    san: 'd3',
-    lan: 'd2d3',
-  },
-  {
-    before: '',
-    after: '',
-    color: 'w',
-    from: 'd2',
-    to: 'd4',
-    flags: 'b',
-    piece: 'p',
-    san: 'd4',
-    lan: 'd2d4',
-  },
-  {
-    before: '',
-    after: '',
-    color: 'w',
-    from: 'e2',
-    to: 'e3',
-    flags: 'n',
-    piece: 'p',
-    san: 'e3',
-    lan: 'e2e3',
-  },
-  {
-    before: '',
-    after: '',
-    color: 'w',
-    from: 'e2',
-    to: 'e4',
-    flags: 'b',
-    piece: 'p',
-    san: 'e4',
-    lan: 'e2e4',
-  },
-  {
-    before: '',
-    after: '',
-    color: 'w',
-    from: 'f2',
-    to: 'f3',
-    flags: 'n',
-    piece: 'p',
-    san: 'f3',
-    lan: 'f2f3',
-  },
-  {
-    before: '',
-    after: '',
-    color: 'w',
-    from: 'f2',
-    to: 'f4',
-    flags: 'b',
-    piece: 'p',
-    san: 'f4',
-    lan: 'f2f4',
-  },
-  {
-    before: '',
-    after: '',
-    color: 'w',
-    from: 'g2',
-    to: 'g3',
-    flags: 'n',
-    piece: 'p',
-    san: 'g3',
-    lan: 'g2g3',
-  },
-  {
-    before: '',
-    after: '',
-    color: 'w',
-    from: 'g2',
-    to: 'g4',
-    flags: 'b',
-    piece: 'p',
-    san: 'g4',
-    lan: 'g2g4',
-  },
-  {
-    before: '',
-    after: '',
-    color: 'w',
-    from: 'h2',
-    to: 'h3',
-    flags: 'n',
-    piece: 'p',
-    san: 'h3',
-    lan: 'h2h3',
-  },
-  {
-    before: '',
-    after: '',
-    color: 'w',
-    from: 'h2',
-    to: 'h4',
-    flags: 'b',
-    piece: 'p',
-    san: 'h4',
-    lan: 'h2h4',
-  },
-  {
-    before: '',
-    after: '',
-    color: 'w',
-    from: 'b1',
-    to: 'a3',
-    flags: 'n',
-    piece: 'n',
-    san: 'Na3',
-    lan: 'b1a3',
-  },
-  {
-    before: '',
-    after: '',
-    color: 'w',
-    from: 'b1',
-    to: 'c3',
-    flags: 'n',
-    piece: 'n',
-    san: 'Nc3',
-    lan: 'b1c3',
-  },
-  {
-    before: '',
-    after: '',
-    color: 'w',
-    from: 'g1',
-    to: 'f3',
-    flags: 'n',
-    piece: 'n',
-    san: 'Nf3',
-    lan: 'g1f3',
-  },
-  {
-    before: '',
-    after: '',
-    color: 'w',
-    from: 'g1',
-    to: 'h3',
-    flags: 'n',
-    piece: 'n',
-    san: 'Nh3',
-    lan: 'g1h3',
-  },
-];
-
-export const possibleFirstThreatsWhite = [
-  { orig: 'a3', brush: 'yellow' },
-  { orig: 'a4', brush: 'yellow' },
-  { orig: 'b3', brush: 'yellow' },
-  { orig: 'b4', brush: 'yellow' },
-  { orig: 'c3', brush: 'yellow' },
-  { orig: 'c4', brush: 'yellow' },
-  { orig: 'd3', brush: 'yellow' },
-  { orig: 'd4', brush: 'yellow' },
-  { orig: 'e3', brush: 'yellow' },
-  { orig: 'e4', brush: 'yellow' },
-  { orig: 'f3', brush: 'yellow' },
-  { orig: 'f4', brush: 'yellow' },
-  { orig: 'g3', brush: 'yellow' },
-  { orig: 'g4', brush: 'yellow' },
-  { orig: 'h3', brush: 'yellow' },
-  { orig: 'h4', brush: 'yellow' },
-  { orig: 'a3', brush: 'yellow' },
-  { orig: 'c3', brush: 'yellow' },
-  { orig: 'f3', brush: 'yellow' },
-  { orig: 'h3', brush: 'yellow' },
-];
+import type { NichessPosition, NichessPositionPiece } from '@/typings/Position';
 
 export const moveableSquaresWhite: SquareKey[] = [
   'a3',
@@ -355,3 +109,21 @@ export const moves: string[] = [
   'Kd5',
   'Kd2',
 ];
+
+/**
+ * kings on a1 and h8, a white warrior on d4 and a black pawn with 30 health points on d5 in its reach,
+ * white to move. The given pieces replace those on their square index, null empties the square
+ */
+export function warriorPosition(
+  pieces: Record<number, NichessPositionPiece | null> = {}
+): NichessPosition {
+  const squares: NichessPosition['squares'] = new Array(64).fill(null);
+  squares[0] = { role: 'king', color: 'white', healthPoints: 10 };
+  squares[63] = { role: 'king', color: 'black', healthPoints: 10 };
+  squares[27] = { role: 'warrior', color: 'white', healthPoints: 60 };
+  squares[35] = { role: 'pawn', color: 'black', healthPoints: 30 };
+  for (const [index, piece] of Object.entries(pieces)) {
+    squares[Number(index)] = piece;
+  }
+  return { turn: 'white', squares };
+}
@@ -1,5 +1,5 @@
-import type { PieceSymbol } from 'chess.js';
 import type { Key } from 'nichessground/types';
+import type { NichessRole, PieceColor } from './Chessboard';
 
 export interface LichessOpening {
   white: number;
@@ -39,10 +39,27 @@ export interface LichessOpening {
   ];
 }
 
+/**
+ * multipliers for the health points of each role when counting material, roles left out count 1
+ * @example { king: 0, mage: 2 } ignores the kings and counts mages double
+ */
+export type MaterialWeights = Partial<Record<NichessRole, number>>;
+
+export interface SideMaterial {
+  pieces: number; // number of living pieces
+  healthPoints: number; // total remaining health points of the living pieces
+  material: number; // health points weighted by role, equal to healthPoints without weights
+}
+
+export interface MaterialCount {
+  white: SideMaterial;
+  black: SideMaterial;
+}
+
 export interface MaterialDifference {
   materialWhite: number;
   materialBlack: number;
-  materialDiff: number;
+  materialDiff: number; // materialWhite - materialBlack
 }
 
 export type BrushColor =
@@ -51,6 +68,7 @@ export type BrushColor =
   | 'blue'
   | 'paleBlue'
   | 'yellow'
+  | 'purple'
   | 'paleGreen'
   | 'paleRed'
   | 'paleGrey';
@@ -61,7 +79,17 @@ export interface DrawShape {
   brush: BrushColor;
 }
 
+export interface KilledPiece {
+  role: NichessRole;
+  color: PieceColor;
+  square: Key; // the square the piece died on
+  ply: number; // 1-based number of the action that killed the piece
+}
+
+/**
+ * killed pieces by the color that killed them, in the order they died
+ */
 export interface CapturedPieces {
-  white: PieceSymbol[];
-  black: PieceSymbol[];
+  white: KilledPiece[];
+  black: KilledPiece[];
 }
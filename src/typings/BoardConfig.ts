@@ -4,7 +4,7 @@ import type { DrawShape, DrawBrushes } from 'nichessground/draw';
 export type MoveableColor = 'white' | 'black' | 'both';
 
 export interface BoardConfig {
-  fen?: cg.FEN; // chess position in Forsyth notation
+  fen?: cg.FEN; // nichess position string, eg. '0|0-warrior-60,...,empty,...'
   orientation?: cg.Color; // board orientation. white | black
   turnColor?: cg.Color; // turn to play. white | black
   check?: cg.Color | boolean; // true for current color, false to unset
@@ -20,6 +20,8 @@ export interface BoardConfig {
   healthAndAbilityPointsText?: cg.HealthAndAbilityPointsTextConfig; // controls health and ability point text
   healthText?: cg.HealthTextConfig; // deprecated alias for healthAndAbilityPointsText
   trustAllEvents?: boolean; // wether to check for isTrusted on events
+  damagePreview?: boolean; // preview the outcome of an attack when hovering its destination with a piece selected
+  hints?: boolean; // allow BoardApi.getHint, eg. false in rated games
   highlight?: {
     lastMove?: boolean; // add last-move class to squares
     check?: boolean; // add check class to squares
@@ -1,7 +1,14 @@
 import type BoardApi from '@/classes/BoardApi';
-import type { Move as FullMove, Square } from 'chess.js';
+import type { Square } from 'chess.js';
 import type { Key } from 'nichessground/types';
+import type { PieceType } from 'nichess';
 import type { BoardConfig, MoveableColor } from './BoardConfig';
+import type {
+  Analysis,
+  AnalysisOptions,
+  EngineSearchOptions,
+  NichessEngine,
+} from './Engine';
 
 export type Move =
   | string
@@ -18,31 +25,48 @@ export interface possibleMoves {
 }
 
 export interface Threat {
-  orig: Square;
-  dest?: Square;
+  orig: Key;
+  dest?: Key;
   brush: string;
+  label?: { text: string }; // eg. the damage of an attack
 }
 
-export type Promotion = 'q' | 'n' | 'b' | 'r';
+export type Promotion = Exclude<NichessRole, 'king' | 'pawn'>;
 
 export type PromotionPiece = {
-  name: 'Queen' | 'Rook' | 'Knight' | 'Bishop';
+  name: 'Mage' | 'Warrior' | 'Knight' | 'Assassin';
   data: Promotion;
 };
 
 export type SquareColor = 'light' | 'dark' | null;
 
-export type Piece = 'pawn' | 'knight' | 'bishop' | 'rook' | 'queen' | 'king';
-
+export type NichessRole =
+  | 'king'
+  | 'mage'
+  | 'warrior'
+  | 'assassin'
+  | 'knight'
+  | 'pawn';
+
+/**
+ * @deprecated use NichessRole
+ */
+export type Piece = NichessRole;
+
+/**
+ * counts of what each side could do if it were their turn, see BoardApi.getThreatCount
+ */
 export interface ThreatCount {
-  checks_white: number;
-  checks_black: number;
+  checksWhite: number; // attacks white could make on the black king
+  checksBlack: number;
+  damageWhite: number; // total damage of every attack white could make
+  damageBlack: number;
   fen: string;
   history: string[];
-  legal_white: number;
-  legal_black: number;
-  threat_white: number;
-  threat_black: number;
+  legalWhite: number; // legal actions of white
+  legalBlack: number;
+  threatWhite: number; // enemy pieces white could attack
+  threatBlack: number;
   turn: 'white' | 'black';
 }
 
@@ -50,25 +74,46 @@ export type SquareKey = Square & Key;
 
 export type PieceColor = 'white' | 'black';
 
+/**
+ * the events of TheChessboard, which declares them inline with the same signatures
+ */
 export interface Emits {
   (e: 'boardCreated', boardApi: BoardApi): void;
-  (e: 'check' | 'checkmate', color: PieceColor): void;
-  (e: 'stalemate'): void;
-  (e: 'draw'): void;
-  (e: 'promotion', promotion: PromotionEvent): void;
+  (e: 'check', check: CheckEvent): void;
+  (e: 'gameOver', result: GameResult): void;
+  (e: 'drawOffered' | 'drawDeclined', color: PieceColor): void; // the color that offered the draw
+  (e: 'gameAborted'): void;
   (e: 'move', move: MoveEvent): void;
+  (e: 'attack' | 'pieceKilled' | 'kingDamaged', attack: AttackEvent): void;
+  (e: 'engineError', error: Error): void; // the engine failed or answered with an illegal action
+  (e: 'promotion', promotion: PromotionEvent): void;
 }
 
 export interface Props {
   boardConfig?: BoardConfig;
   playerColor?: MoveableColor;
   reactiveConfig?: boolean;
+  engine?: NichessEngine; // plays engineColor, see BoardApi.setEngine
+  engineColor?: PieceColor;
+  engineOptions?: EngineSearchOptions;
+  analysisMode?: boolean; // see BoardApi.startAnalysis
+  analysisOptions?: AnalysisOptions;
 }
 
+/**
+ * control colors squares by the number of pieces of each side that can act on them next turn, damage by
+ * the total damage each side could deal there and contested only shows squares both sides can act on
+ */
+export type ControlHeatmapMode = 'control' | 'damage' | 'contested';
+
 export interface BoardState {
   showThreats: boolean;
+  controlHeatmap?: ControlHeatmapMode; // shown by BoardApi.showControlHeatmap
   promotionDialogState: PromotionDialogState;
   historyViewerState: HistoryViewerState;
+  revision: number; // incremented whenever the game state is updated, see BoardApi.getRevision
+  analysisOptions?: AnalysisOptions; // set while the analysis mode is on
+  analysis?: Analysis;
 }
 
 export interface PromotionDialogState {
@@ -92,6 +137,89 @@ export interface MoveEvent {
   attack: boolean;
 }
 
+/**
+ * kingKilled, noLegalActions and drawByRule follow from the position, the others are decided by the players
+ */
+export type GameOverReason =
+  | 'kingKilled'
+  | 'noLegalActions'
+  | 'drawByRule'
+  | 'resignation'
+  | 'timeout'
+  | 'agreement';
+
+/**
+ * the outcome of a finished game, winner and loser are null for a draw
+ */
+export interface GameResult {
+  winner: PieceColor | null;
+  loser: PieceColor | null;
+  reason: GameOverReason;
+}
+
+export interface AttackingPiece {
+  square: Key;
+  role: NichessRole;
+  color: PieceColor;
+}
+
+/**
+ * payload of the attack, pieceKilled and kingDamaged events, emitted when a piece uses its ability
+ */
+export interface AttackEvent {
+  attacker: AttackingPiece;
+  target: AttackingPiece;
+  damage: number; // health points taken from the target, at most its health points before the attack
+  targetHealthBefore: number;
+  targetHealthAfter: number; // 0 if the target was killed
+  targetKilled: boolean;
+  attackerMoved: boolean; // true if the attacker moved onto the target's square, false if it stayed in place
+}
+
+/**
+ * an attack the opponent could make on a king next turn, see BoardApi.getKingThreats
+ */
+export type KingThreat = AttackEvent;
+
+/**
+ * payload of the check event, emitted when the king of the side to move can be attacked next turn
+ */
+export interface CheckEvent {
+  color: PieceColor; // the color of the threatened king
+  threats: KingThreat[];
+}
+
+export type ActionKind = 'move' | 'ability';
+
+/**
+ * a legal action of the side to move, as returned by BoardApi.getPossibleMoves
+ */
+export interface PossibleAction {
+  from: Key;
+  to: Key;
+  kind: ActionKind; // 'move' to an empty square or 'ability' used on an occupied square
+}
+
+/**
+ * one ply of nichess history, as returned by BoardApi.getHistory(true)
+ */
+export interface HistoryMove {
+  from: Key;
+  to: Key;
+  pieceType: PieceType; // the acting piece
+  role: NichessRole; // the role of the acting piece
+  color: PieceColor; // the color of the acting piece
+  kind: ActionKind; // 'move' to an empty square or 'ability' used on an occupied square
+  targetType: PieceType; // PieceType.NO_PIECE for plain moves
+  targetRole: NichessRole | null; // null for plain moves
+  targetHealthBefore: number; // 0 for plain moves
+  targetHealthAfter: number; // 0 for plain moves and killed targets
+  targetKilled: boolean;
+  pieceMoved: boolean; // false if the acting piece used its ability and stayed on its square
+  before: string; // position string before the action
+  after: string; // position string after the action
+}
+
 export type HistoryViewerState =
   | {
       isEnabled: false;
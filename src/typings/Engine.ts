@@ -0,0 +1,95 @@
+import type { Key } from 'nichessground/types';
+import type { Api as NichessApi } from 'nichess';
+import type { MaterialWeights } from './BoardAPI';
+
+export interface EngineSearchOptions {
+  depth?: number; // maximum search depth in plies
+  movetime?: number; // maximum search time in milliseconds
+  nodes?: number; // maximum number of searched positions
+  multiPv?: number; // number of best lines to return in EngineResult.lines, defaults to 1
+}
+
+export interface EngineAction {
+  from: Key;
+  to: Key;
+}
+
+export interface EngineLine {
+  score: number; // from the point of view of the side to move, positive if it is ahead, see kingKillScore
+  pv: string[]; // principal variation in the form of getHistory(), eg. ['d4xd5', 'e7e6']
+}
+
+export interface EngineResult extends EngineLine {
+  bestAction: EngineAction | null; // null if the side to move has no legal action
+  lines?: EngineLine[]; // the best multiPv lines, best first
+  depth?: number; // depth of the last complete search, below the requested depth if a limit was hit
+}
+
+export interface AnalysisOptions extends EngineSearchOptions {
+  depth?: number; // the analysis deepens one ply at a time up to this depth, defaults to 20
+}
+
+/**
+ * the latest engine result of the analysis mode, see BoardApi.startAnalysis
+ */
+export interface Analysis {
+  fen: string; // the analysed position
+  depth: number;
+  lines: EngineLine[]; // best first, scores from white's point of view
+}
+
+/**
+ * an opponent for BoardApi.setEngine or the engine prop of TheChessboard. Engines can run in a Web
+ * Worker with WorkerEngine and serveEngine
+ */
+export interface NichessEngine {
+  setPosition(position: string): void | Promise<void>; // a position string as returned by getFen()
+  go(options?: EngineSearchOptions): Promise<EngineResult>;
+  stop(): void; // ends the current search early so that go resolves, does nothing when idle
+}
+
+/**
+ * search settings of AlphaBetaEngine, see engineDifficulties
+ */
+export type EngineDifficulty = 'beginner' | 'easy' | 'medium' | 'hard';
+
+export interface EngineEvaluation {
+  weights?: MaterialWeights; // multipliers of the health points of each role, see defaultEvaluationWeights
+  kingSafety?: number; // penalty per ability point of the enemy pieces within two squares of a king
+}
+
+export interface AlphaBetaEngineOptions {
+  difficulty?: EngineDifficulty; // defaults to medium, options passed to go override its settings
+  evaluation?: EngineEvaluation;
+  evaluate?: (game: NichessApi) => number; // replaces the built-in evaluation, scored for the side to move
+}
+
+/**
+ * 1 highlights the piece to move, 2 also draws the arrow of the action
+ */
+export type HintLevel = 1 | 2;
+
+export interface HintOptions extends EngineSearchOptions {
+  level?: HintLevel;
+}
+
+export type EngineWorkerRequest =
+  | { id: number; type: 'setPosition'; position: string }
+  | { id: number; type: 'go'; options?: EngineSearchOptions }
+  | { type: 'stop' };
+
+export type EngineWorkerResponse =
+  | { id: number; type: 'ready' } // reply to setPosition
+  | { id: number; type: 'result'; result: EngineResult }
+  | { id: number; type: 'error'; message: string };
+
+/**
+ * the part of a worker's global scope used by serveEngine
+ */
+export interface EngineWorkerScope {
+  postMessage(message: EngineWorkerResponse): void;
+  addEventListener(
+    type: 'message',
+    listener: (event: MessageEvent<EngineWorkerRequest>) => void
+  ): void;
+}
@@ -0,0 +1,22 @@
+import type { Key } from 'nichessground/types';
+import type { ActionKind } from './Chessboard';
+
+export type GameRecordHeaders = { [key: string]: string | undefined };
+
+export type GameRecordResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export interface GameRecordMove {
+  from: Key;
+  to: Key;
+  kind: ActionKind;
+  damage?: number; // damage annotation, eg. 20 for 'd1xd7(-20)'
+  killed: boolean; // kill annotation, eg. 'd1xd7(-20)#'
+  line: number; // 1-based line of the move token
+  column: number; // 1-based column of the move token
+}
+
+export interface GameRecord {
+  headers: GameRecordHeaders;
+  moves: GameRecordMove[];
+  result: GameRecordResult;
+}
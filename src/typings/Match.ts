@@ -0,0 +1,43 @@
+import type { EngineSearchOptions } from './Engine';
+import type { GameOverReason, HistoryMove, PieceColor } from './Chessboard';
+import type { GameRecordHeaders } from './GameRecord';
+
+export interface MatchOptions {
+  games?: number; // defaults to 2
+  openings?: string[]; // position strings, each played twice in a row with swapped colors
+  maxPlies?: number; // longer games end as a draw, defaults to 300
+  timePerMove?: number; // the movetime of every search in milliseconds
+  searchOptions?: EngineSearchOptions; // further limits of every search, eg. depth
+  names?: [string, string]; // the names of engine A and B in the game records
+  headers?: GameRecordHeaders; // added to every game record, eg. { Event: 'Tuning run' }
+}
+
+/**
+ * illegalAction means the engine lost by answering with an illegal action or none at all
+ */
+export type MatchGameOverReason = GameOverReason | 'maxPlies' | 'illegalAction';
+
+export interface MatchGameResult {
+  winner: PieceColor | null;
+  loser: PieceColor | null;
+  reason: MatchGameOverReason;
+}
+
+export interface MatchGame {
+  white: 'A' | 'B'; // the engine playing white
+  opening: string; // the starting position string
+  history: HistoryMove[];
+  result: MatchGameResult;
+  scoreA: number; // 1 for a win of engine A, 0.5 for a draw and 0 for a loss
+  record: string; // the game in the game record format, see serializeGameRecord
+}
+
+export interface MatchResult {
+  games: MatchGame[];
+  winsA: number;
+  winsB: number;
+  draws: number;
+  scoreA: number; // the points of engine A, a win counts 1 and a draw 0.5
+  scoreB: number;
+  eloDifference: number; // the estimated Elo of engine A minus engine B
+}
@@ -0,0 +1,33 @@
+import type { Key } from 'nichessground/types';
+import type { NichessRole, PieceColor } from './Chessboard';
+
+export interface NichessPositionPiece {
+  role: NichessRole;
+  color: PieceColor; // white is player 1, black is player 2
+  healthPoints: number;
+}
+
+export interface BoardSquare extends NichessPositionPiece {
+  square: Key;
+  abilityPoints: number; // damage the piece deals with its ability
+}
+
+export interface NichessPosition {
+  turn: PieceColor; // side to move
+  squares: (NichessPositionPiece | null)[]; // 64 squares, index 0 is a1, 7 is h1 and 63 is h8
+}
+
+export type PositionProblemCode =
+  | 'malformed' // the string can't be read, eg. a malformed token
+  | 'squareCount' // not exactly 64 squares
+  | 'missingKing'
+  | 'duplicateKing'
+  | 'healthPoints' // zero, negative or above the maximum of the piece type
+  | 'pawnRank'; // a pawn on its own back rank
+
+export interface PositionProblem {
+  code: PositionProblemCode;
+  message: string;
+  square?: Key; // the square the problem concerns, if any
+  color?: PieceColor; // the side the problem concerns, for king problems
+}
@@ -0,0 +1,325 @@
+import { squareIndexToKey } from '@/helper/Board';
+import type { MaterialWeights } from '@/typings/BoardAPI';
+import type {
+  AlphaBetaEngineOptions,
+  EngineDifficulty,
+  EngineLine,
+  EngineResult,
+  EngineSearchOptions,
+  NichessEngine,
+} from '@/typings/Engine';
+import {
+  Api as NichessApi,
+  NUM_ROWS,
+  NUM_SQUARES,
+  Piece,
+  Player,
+  PieceType,
+  PlayerAction,
+  pieceTypeToAbilityPoints,
+} from 'nichess';
+import { pieceTypeToRole } from './Roles';
+import { kingKillScore, pliesToKill } from './Analysis';
+
+interface SearchLine {
+  score: number;
+  pv: PlayerAction[];
+}
+
+/**
+ * the search settings of each difficulty of AlphaBetaEngine
+ */
+export const engineDifficulties: Record<EngineDifficulty, EngineSearchOptions> =
+  {
+    beginner: { depth: 1 },
+    easy: { depth: 2 },
+    medium: { depth: 3, movetime: 1000 },
+    hard: { depth: 6, movetime: 3000 },
+  };
+
+/**
+ * the default multipliers of each role's health points in the evaluation of AlphaBetaEngine. Mages and
+ * assassins have few health points but deal a lot of damage
+ */
+export const defaultEvaluationWeights: Required<MaterialWeights> = {
+  king: 5,
+  mage: 4,
+  warrior: 1,
+  assassin: 4,
+  knight: 1,
+  pawn: 1,
+};
+
+const MAX_DEPTH = 64;
+
+/**
+ * a reference engine searching the nichess Api with iterative deepening alpha-beta, trying kills and
+ * then the strongest attacks first. It runs in Node as well as in a browser or a Web Worker.
+ * Searches stop at the depth, node or time limit, whichever comes first, and a stop or a new position
+ * is noticed between two iterations
+ * @example const result = await new AlphaBetaEngine({ difficulty: 'easy' }).go({ movetime: 500 })
+ */
+export class AlphaBetaEngine implements NichessEngine {
+  private game = new NichessApi();
+  private options: AlphaBetaEngineOptions;
+  private nodes = 0;
+  private nodeLimit = Infinity;
+  private deadline = Infinity;
+  private generation = 0; // increased by go, stop and setPosition, older searches end
+  private limited = false; // whether the node and time limits apply to the current iteration
+  private aborted = false; // the current iteration hit a limit and its result is incomplete
+  private rootPv: PlayerAction[] = []; // the best line of the last complete iteration
+
+  constructor(options: AlphaBetaEngineOptions = {}) {
+    this.options = options;
+  }
+
+  setPosition(position: string): void {
+    this.generation++;
+    this.game.boardFromString(position);
+  }
+
+  async go(options: EngineSearchOptions = {}): Promise<EngineResult> {
+    const limits = {
+      ...engineDifficulties[this.options.difficulty ?? 'medium'],
+      ...options,
+    };
+    const maxDepth = Math.min(limits.depth ?? MAX_DEPTH, MAX_DEPTH);
+    this.nodes = 0;
+    this.nodeLimit = limits.nodes ?? Infinity;
+    this.deadline =
+      limits.movetime == null ? Infinity : Date.now() + limits.movetime;
+    const generation = ++this.generation;
+    this.rootPv = [];
+
+    let engineLines: EngineLine[] = [];
+    let bestAction: PlayerAction | undefined;
+    let completedDepth = 0;
+    for (let depth = 1; depth <= maxDepth; depth++) {
+      this.aborted = false;
+      // the first iteration always completes, so that there is an action to play
+      this.limited = depth > 1;
+      const lines = this.searchRoot(depth, limits.multiPv ?? 1);
+      if (this.aborted || lines.length === 0) break; // out of limits or the game is over
+      this.rootPv = lines[0].pv;
+      bestAction = lines[0].pv[0];
+      completedDepth = depth;
+      // written out now, the position may change while waiting below
+      engineLines = lines.map((line) => ({
+        score: line.score,
+        pv: this.pvToStrings(line.pv),
+      }));
+      if (pliesToKill(lines[0].score) !== undefined) break;
+      // lets a stop sent to a Web Worker arrive
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (generation !== this.generation) break;
+    }
+
+    return {
+      bestAction: bestAction
+        ? {
+            from: squareIndexToKey(bestAction.srcIdx),
+            to: squareIndexToKey(bestAction.dstIdx),
+          }
+        : null,
+      score: engineLines[0]?.score ?? this.terminalScore(0) ?? -kingKillScore,
+      pv: engineLines[0]?.pv ?? [],
+      lines: engineLines,
+      depth: completedDepth,
+    };
+  }
+
+  stop(): void {
+    this.generation++;
+  }
+
+  /**
+   * searches every root action and returns the best multiPv lines, best first. An action only has to
+   * be proven worse than the last of the lines found so far
+   * @private
+   */
+  private searchRoot(depth: number, multiPv: number): SearchLine[] {
+    const lines: SearchLine[] = [];
+    if (this.terminalScore(0) !== undefined) return lines;
+    for (const action of this.orderedActions(0)) {
+      const alpha =
+        lines.length >= multiPv ? lines[multiPv - 1].score : -Infinity;
+      const childPv: PlayerAction[] = [];
+      this.game.makeAction(action.srcIdx, action.dstIdx);
+      const score = -this.search(depth - 1, -Infinity, -alpha, 1, childPv);
+      this.game.undoLastAction();
+      if (this.aborted) break;
+      if (score > alpha) {
+        lines.push({ score, pv: [action, ...childPv] });
+        lines.sort((a, b) => b.score - a.score);
+        lines.length = Math.min(lines.length, multiPv);
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * negamax alpha-beta search scored for the side to move, fills pv with the best line
+   * @private
+   */
+  private search(
+    depth: number,
+    alpha: number,
+    beta: number,
+    ply: number,
+    pv: PlayerAction[]
+  ): number {
+    this.nodes++;
+    if (
+      this.limited &&
+      (this.nodes > this.nodeLimit || Date.now() > this.deadline)
+    ) {
+      this.aborted = true;
+      return 0;
+    }
+    const terminalScore = this.terminalScore(ply);
+    if (terminalScore !== undefined) return terminalScore;
+    if (depth === 0) return this.evaluate();
+
+    const actions = this.orderedActions(ply);
+    if (actions.length === 0) return -(kingKillScore - ply); // no legal actions loses
+
+    let best = -Infinity;
+    for (const action of actions) {
+      const childPv: PlayerAction[] = [];
+      this.game.makeAction(action.srcIdx, action.dstIdx);
+      const score = -this.search(depth - 1, -beta, -alpha, ply + 1, childPv);
+      this.game.undoLastAction();
+      if (this.aborted) return best === -Infinity ? 0 : best;
+
+      if (score > best) {
+        best = score;
+        pv.length = 0;
+        pv.push(action, ...childPv);
+      }
+      alpha = Math.max(alpha, score);
+      if (alpha >= beta) break;
+    }
+    return best;
+  }
+
+  /**
+   * returns the legal actions of the side to move with the best line's action first, then kills,
+   * then the other attacks by damage and then plain moves
+   * @private
+   */
+  private orderedActions(ply: number): PlayerAction[] {
+    const pvAction = this.rootPv[ply];
+    const scored: { action: PlayerAction; order: number }[] = [];
+    for (let srcIdx = 0; srcIdx < NUM_SQUARES; srcIdx++) {
+      for (const action of this.game.legalActionsBySquare(srcIdx)) {
+        const target = this.game.pieceBySquare(action.dstIdx);
+        let order = 0;
+        if (target.type !== PieceType.NO_PIECE) {
+          const damage = Math.min(
+            pieceTypeToAbilityPoints(this.game.pieceBySquare(srcIdx).type),
+            target.healthPoints
+          );
+          order = (damage >= target.healthPoints ? 1000 : 1) + damage;
+        }
+        if (
+          pvAction &&
+          pvAction.srcIdx === action.srcIdx &&
+          pvAction.dstIdx === action.dstIdx
+        ) {
+          order = Infinity;
+        }
+        scored.push({ action, order });
+      }
+    }
+    return scored
+      .sort((a, b) => b.order - a.order)
+      .map((scoredAction) => scoredAction.action);
+  }
+
+  /**
+   * returns the score of a finished game for the side to move, or undefined if the game goes on.
+   * Quicker kills score higher, see kingKillScore
+   * @private
+   */
+  private terminalScore(ply: number): number | undefined {
+    const player = this.game.currentPlayer();
+    const opponent =
+      player === Player.PLAYER_1 ? Player.PLAYER_2 : Player.PLAYER_1;
+    if (!this.hasKing(player)) return -(kingKillScore - ply);
+    if (!this.hasKing(opponent)) return kingKillScore - ply;
+    if (this.game.isGameOver() && this.game.draw()) return 0;
+    return undefined;
+  }
+
+  private hasKing(player: Player): boolean {
+    return this.livingPieces(player).some(
+      (piece) => pieceTypeToRole(piece.type) === 'king'
+    );
+  }
+
+  private livingPieces(player: Player): Piece[] {
+    return this.game
+      .allPiecesByPlayer(player)
+      .filter((piece) => piece.healthPoints > 0);
+  }
+
+  /**
+   * weighted health points of the side to move minus the opponent's, each side losing the king safety
+   * penalty for the enemy pieces near its king
+   * @private
+   */
+  private evaluate(): number {
+    if (this.options.evaluate) return this.options.evaluate(this.game);
+    const weights = {
+      ...defaultEvaluationWeights,
+      ...this.options.evaluation?.weights,
+    };
+    const kingSafety = this.options.evaluation?.kingSafety ?? 0.5;
+    const player = this.game.currentPlayer();
+    const opponent =
+      player === Player.PLAYER_1 ? Player.PLAYER_2 : Player.PLAYER_1;
+
+    const sides = [player, opponent].map((side) => this.livingPieces(side));
+    const [score, opponentScore] = sides.map((pieces, side) => {
+      const enemies = sides[1 - side];
+      let material = 0;
+      for (const piece of pieces) {
+        const role = pieceTypeToRole(piece.type);
+        material += piece.healthPoints * (role ? weights[role] : 1);
+        if (role !== 'king') continue;
+        for (const enemy of enemies) {
+          if (squareDistance(piece.squareIndex, enemy.squareIndex) <= 2) {
+            material -= kingSafety * pieceTypeToAbilityPoints(enemy.type);
+          }
+        }
+      }
+      return material;
+    });
+    return score - opponentScore;
+  }
+
+  /**
+   * the given line in the form of getHistory(), eg. ['d4xd5', 'e7e6']
+   * @private
+   */
+  private pvToStrings(pv: PlayerAction[]): string[] {
+    const strings = pv.map((action) => {
+      const from = squareIndexToKey(action.srcIdx);
+      const to = squareIndexToKey(action.dstIdx);
+      const isAbility =
+        this.game.pieceBySquare(action.dstIdx).type !== PieceType.NO_PIECE;
+      this.game.makeAction(action.srcIdx, action.dstIdx);
+      return isAbility ? `${from}x${to}` : `${from}${to}`;
+    });
+    pv.forEach(() => this.game.undoLastAction());
+    return strings;
+  }
+}
+
+function squareDistance(a: number, b: number): number {
+  return Math.max(
+    Math.abs((a % NUM_ROWS) - (b % NUM_ROWS)),
+    Math.abs(Math.floor(a / NUM_ROWS) - Math.floor(b / NUM_ROWS))
+  );
+}
@@ -0,0 +1,39 @@
+/**
+ * engine scores of kingKillScore minus n mean the king is killed n plies from now, negative scores the
+ * other way round. Other scores are in weighted health points
+ */
+export const kingKillScore = 1000000;
+
+const MAX_KILL_PLIES = 1000;
+
+/**
+ * returns the number of plies until a king is killed, or undefined for an ordinary score
+ */
+export function pliesToKill(score: number): number | undefined {
+  const plies = kingKillScore - Math.abs(score);
+  return plies <= MAX_KILL_PLIES ? plies : undefined;
+}
+
+/**
+ * formats an engine score for display, eg. '+35', '-12' or '#3' for killing the king in 3 moves and
+ * '#-2' for losing the king in 2
+ */
+export function formatEngineScore(score: number): string {
+  const plies = pliesToKill(score);
+  if (plies !== undefined) {
+    return `#${score < 0 ? '-' : ''}${Math.max(Math.ceil(plies / 2), 1)}`;
+  }
+  const rounded = Math.round(score);
+  return rounded > 0 ? `+${rounded}` : `${rounded}`;
+}
+
+/**
+ * returns the share of an evaluation bar that belongs to white, from 0 to 100
+ *
+ * @param score - from white's point of view
+ * @param scale - the score that gives white about three quarters of the bar
+ */
+export function engineScoreToWhiteShare(score: number, scale = 100): number {
+  if (pliesToKill(score) !== undefined) return score > 0 ? 100 : 0;
+  return 100 / (1 + Math.exp((-score / scale) * Math.log(3)));
+}
@@ -0,0 +1,313 @@
+/**
+ * Text game record format for nichess, modelled after PGN:
+ *
+ * [Event "Casual game"]
+ * [Date "2024.05.11"]
+ * [White "Alice"]
+ * [Black "Bob"]
+ * [Result "1-0"]
+ * [Termination "kingKilled"]
+ * [Position "0|0-warrior-60,..."]
+ *
+ * 1. e2e4 e7e5 2. d1xd7(-10)# 1-0
+ *
+ * Moves are written as source and destination square, an ability used on an occupied square
+ * is marked with 'x', '(-n)' is the damage dealt and '#' marks a killed target. Comments in
+ * braces or after a semicolon are ignored.
+ */
+import { historyMoveToString } from '@/helper/Board';
+import type {
+  GameOverReason,
+  GameResult,
+  HistoryMove,
+} from '@/typings/Chessboard';
+import type {
+  GameRecord,
+  GameRecordHeaders,
+  GameRecordMove,
+  GameRecordResult,
+} from '@/typings/GameRecord';
+import type { MatchGameOverReason, MatchGameResult } from '@/typings/Match';
+import type { Key } from 'nichessground/types';
+
+const headerOrder = [
+  'Event',
+  'Site',
+  'Date',
+  'Round',
+  'White',
+  'Black',
+  'Result',
+  'Termination',
+  'Position',
+];
+
+const results: GameRecordResult[] = ['1-0', '0-1', '1/2-1/2', '*'];
+
+const gameOverReasons: GameOverReason[] = [
+  'kingKilled',
+  'noLegalActions',
+  'drawByRule',
+  'resignation',
+  'timeout',
+  'agreement',
+];
+
+// the terminations of runMatch the board can't reach, read as the board's closest reason
+const matchGameOverReasons: Record<
+  Exclude<MatchGameOverReason, GameOverReason>,
+  GameOverReason
+> = {
+  maxPlies: 'drawByRule',
+  illegalAction: 'resignation',
+};
+
+const moveRegex = /^([a-h][1-8])(x?)([a-h][1-8])(?:\(-?(\d+)\))?(#?)[!?]*$/;
+
+const maxLineLength = 80;
+
+/**
+ * thrown when a game record can't be read, line and column are 1-based
+ */
+export class GameRecordParseError extends Error {
+  line: number;
+  column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`${message} (line ${line}, column ${column})`);
+    this.name = 'GameRecordParseError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+function escapeHeaderValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+function moveToRecordString(move: HistoryMove): string {
+  let text = historyMoveToString(move);
+  if (move.kind === 'ability') {
+    text += `(-${move.targetHealthBefore - move.targetHealthAfter})`;
+    if (move.targetKilled) text += '#';
+  }
+  return text;
+}
+
+/**
+ * writes headers and history as a game record
+ *
+ * @param headers - header key value pairs, undefined values are left out
+ * @param history - the history records, as returned by BoardApi.getHistory(true)
+ */
+export function serializeGameRecord(
+  headers: GameRecordHeaders,
+  history: HistoryMove[]
+): string {
+  const keys = [
+    ...headerOrder.filter((key) => key in headers),
+    ...Object.keys(headers).filter((key) => !headerOrder.includes(key)),
+  ];
+  const headerLines = keys
+    .filter((key) => headers[key] !== undefined)
+    .map((key) => `[${key} "${escapeHeaderValue(headers[key] as string)}"]`);
+
+  const tokens: string[] = [];
+  let moveNumber = 1;
+  history.forEach((move, index) => {
+    if (move.color === 'white') {
+      tokens.push(`${moveNumber}.`);
+    } else if (index === 0) {
+      tokens.push(`${moveNumber}...`);
+    }
+    tokens.push(moveToRecordString(move));
+    if (move.color === 'black') moveNumber++;
+  });
+  tokens.push(headers.Result ?? '*');
+
+  const moveLines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line.length > 0 && line.length + token.length + 1 > maxLineLength) {
+      moveLines.push(line);
+      line = token;
+    } else {
+      line = line.length > 0 ? `${line} ${token}` : token;
+    }
+  }
+  moveLines.push(line);
+
+  return headerLines.length > 0
+    ? `${headerLines.join('\n')}\n\n${moveLines.join('\n')}`
+    : moveLines.join('\n');
+}
+
+/**
+ * reads a game record. The parser accepts missing headers, missing move numbers, comments,
+ * annotations like '!' or '?' and any amount of whitespace.
+ *
+ * @throws GameRecordParseError if the text is not a game record
+ */
+export function parseGameRecord(text: string): GameRecord {
+  const headers: GameRecordHeaders = {};
+  const moves: GameRecordMove[] = [];
+  let result: GameRecordResult | undefined;
+
+  let index = 0;
+  let line = 1;
+  let column = 1;
+
+  function advance(): string {
+    const char = text[index++];
+    if (char === '\n') {
+      line++;
+      column = 1;
+    } else {
+      column++;
+    }
+    return char;
+  }
+
+  function readHeader(): void {
+    const startLine = line;
+    const startColumn = column;
+    advance(); // '['
+    const match = /^\s*([A-Za-z0-9_]+)\s+"((?:[^"\\\n]|\\.)*)"\s*\]/.exec(
+      text.slice(index)
+    );
+    if (match == null) {
+      throw new GameRecordParseError(
+        'Malformed header, expected [Key "value"]',
+        startLine,
+        startColumn
+      );
+    }
+    headers[match[1]] = match[2].replace(/\\(.)/g, '$1');
+    for (let i = 0; i < match[0].length; i++) advance();
+  }
+
+  function skipComment(): void {
+    const startLine = line;
+    const startColumn = column;
+    const end = advance() === '{' ? '}' : '\n';
+    while (index < text.length && text[index] !== end) advance();
+    if (end === '}' && index >= text.length) {
+      throw new GameRecordParseError(
+        'Unterminated comment',
+        startLine,
+        startColumn
+      );
+    }
+    if (index < text.length) advance();
+  }
+
+  while (index < text.length) {
+    const char = text[index];
+    if (/\s/.test(char)) {
+      advance();
+    } else if (char === '[') {
+      if (moves.length > 0 || result !== undefined) {
+        throw new GameRecordParseError(
+          'Header after the move section',
+          line,
+          column
+        );
+      }
+      readHeader();
+    } else if (char === '{' || char === ';') {
+      skipComment();
+    } else {
+      const tokenLine = line;
+      const tokenColumn = column;
+      let token = '';
+      while (index < text.length && !/[\s{;[]/.test(text[index])) {
+        token += advance();
+      }
+
+      // move numbers may be glued to the move, eg. '1.e2e4'
+      token = token.replace(/^\d+\.+/, '');
+      if (token.length === 0) continue;
+
+      if (result !== undefined) {
+        throw new GameRecordParseError(
+          `Unexpected "${token}" after the result`,
+          tokenLine,
+          tokenColumn
+        );
+      }
+
+      if ((results as string[]).includes(token)) {
+        result = token as GameRecordResult;
+        continue;
+      }
+
+      const match = moveRegex.exec(token.toLowerCase());
+      if (match == null) {
+        throw new GameRecordParseError(
+          `Unexpected "${token}", expected a move like e2e4 or d1xd7`,
+          tokenLine,
+          tokenColumn
+        );
+      }
+      moves.push({
+        from: match[1] as Key,
+        to: match[3] as Key,
+        kind: match[2] === 'x' ? 'ability' : 'move',
+        damage: match[4] !== undefined ? parseInt(match[4]) : undefined,
+        killed: match[5] === '#',
+        line: tokenLine,
+        column: tokenColumn,
+      });
+    }
+  }
+
+  return {
+    headers,
+    moves,
+    result:
+      result ??
+      ((results as (string | undefined)[]).includes(headers.Result)
+        ? (headers.Result as GameRecordResult)
+        : '*'),
+  };
+}
+
+/**
+ * returns the Result header value for a game result, '*' for a game that isn't over
+ */
+export function gameResultToRecordResult(
+  result: GameResult | MatchGameResult | undefined
+): GameRecordResult {
+  if (result == null) return '*';
+  if (result.winner == null) return '1/2-1/2';
+  return result.winner === 'white' ? '1-0' : '0-1';
+}
+
+/**
+ * returns the game result described by the Result and Termination headers of a record, or undefined
+ * for an unfinished game. The maxPlies and illegalAction terminations of runMatch are read as
+ * drawByRule and resignation. Without a known Termination a decisive result is read as a resignation
+ * and a draw as an agreement.
+ */
+export function recordResultToGameResult(
+  result: GameRecordResult,
+  termination?: string
+): GameResult | undefined {
+  if (result === '*') return undefined;
+  const winner = result === '1-0' ? 'white' : result === '0-1' ? 'black' : null;
+  const reason = (gameOverReasons as (string | undefined)[]).includes(
+    termination
+  )
+    ? (termination as GameOverReason)
+    : termination != null &&
+      Object.keys(matchGameOverReasons).includes(termination)
+    ? matchGameOverReasons[termination as keyof typeof matchGameOverReasons]
+    : winner == null
+    ? 'agreement'
+    : 'resignation';
+  return {
+    winner: winner,
+    loser: winner == null ? null : winner === 'white' ? 'black' : 'white',
+    reason: reason,
+  };
+}
@@ -0,0 +1,149 @@
+import {
+  gameResultByRules,
+  isActionLegal,
+  keyToSquareIndex,
+  playAction,
+} from '@/helper/Board';
+import type { HistoryMove, PieceColor } from '@/typings/Chessboard';
+import type { NichessEngine } from '@/typings/Engine';
+import type {
+  MatchGame,
+  MatchGameResult,
+  MatchOptions,
+  MatchResult,
+} from '@/typings/Match';
+import { Api as NichessApi, Player } from 'nichess';
+import { gameResultToRecordResult, serializeGameRecord } from './GameRecord';
+import { startingPosition } from './Position';
+
+/**
+ * returns the Elo difference that makes the given share of the points the expected score. A clean
+ * sweep is estimated as if half a game had gone the other way
+ *
+ * @param score - the points of one side, a win counts 1 and a draw 0.5
+ * @param games - the number of games played
+ */
+export function estimateEloDifference(score: number, games: number): number {
+  if (games === 0) return 0;
+  const share = Math.min(Math.max(score / games, 0.5 / games), 1 - 0.5 / games);
+  return -400 * Math.log10(1 / share - 1);
+}
+
+async function playMatchGame(
+  engines: Record<PieceColor, NichessEngine>,
+  opening: string,
+  { maxPlies = 300, timePerMove, searchOptions }: MatchOptions
+): Promise<{ history: HistoryMove[]; result: MatchGameResult }> {
+  const game = new NichessApi();
+  game.boardFromString(opening);
+  const history: HistoryMove[] = [];
+
+  for (;;) {
+    const result = gameResultByRules(game);
+    if (result) return { history, result };
+    if (history.length >= maxPlies) {
+      return {
+        history,
+        result: { winner: null, loser: null, reason: 'maxPlies' },
+      };
+    }
+
+    const color: PieceColor =
+      game.currentPlayer() === Player.PLAYER_1 ? 'white' : 'black';
+    const engine = engines[color];
+    await engine.setPosition(game.boardToString());
+    const { bestAction } = await engine.go(
+      timePerMove === undefined
+        ? { ...searchOptions }
+        : { ...searchOptions, movetime: timePerMove }
+    );
+    const srcIdx = bestAction ? keyToSquareIndex(bestAction.from) : -1;
+    if (
+      bestAction == null ||
+      !isActionLegal(game, srcIdx, keyToSquareIndex(bestAction.to))
+    ) {
+      return {
+        history,
+        result: {
+          winner: color === 'white' ? 'black' : 'white',
+          loser: color,
+          reason: 'illegalAction',
+        },
+      };
+    }
+    history.push(playAction(game, srcIdx, keyToSquareIndex(bestAction.to)));
+  }
+}
+
+/**
+ * plays games between two engines without a board, eg. in Node to tune an engine. The engines swap
+ * colors every game, so with an even number of games each opening is played from both sides.
+ * Games end by the rules of the game controller of BoardApi, or as a draw after maxPlies
+ *
+ * @param options - games, openings, maxPlies, timePerMove and the names and headers of the records
+ * @example const { scoreA, eloDifference } = await runMatch(new AlphaBetaEngine(),
+ * new AlphaBetaEngine({ evaluation: { kingSafety: 2 } }), { games: 20, timePerMove: 100 })
+ */
+export async function runMatch(
+  engineA: NichessEngine,
+  engineB: NichessEngine,
+  options: MatchOptions = {}
+): Promise<MatchResult> {
+  const {
+    games: gameCount = 2,
+    openings = [startingPosition()],
+    names = ['Engine A', 'Engine B'],
+    headers = {},
+  } = options;
+
+  const games: MatchGame[] = [];
+  for (let index = 0; index < gameCount; index++) {
+    const opening = openings[Math.floor(index / 2) % openings.length];
+    const white = index % 2 === 0 ? 'A' : 'B';
+    const { history, result } = await playMatchGame(
+      white === 'A'
+        ? { white: engineA, black: engineB }
+        : { white: engineB, black: engineA },
+      opening,
+      options
+    );
+    const colorOfA: PieceColor = white === 'A' ? 'white' : 'black';
+    games.push({
+      white: white,
+      opening: opening,
+      history: history,
+      result: result,
+      scoreA: result.winner == null ? 0.5 : result.winner === colorOfA ? 1 : 0,
+      record: serializeGameRecord(
+        {
+          ...headers,
+          Round: `${index + 1}`,
+          White: white === 'A' ? names[0] : names[1],
+          Black: white === 'A' ? names[1] : names[0],
+          Result: gameResultToRecordResult(result),
+          Termination: result.reason,
+          Position: opening,
+        },
+        history
+      ),
+    });
+  }
+
+  const scoreA = games.reduce((total, game) => total + game.scoreA, 0);
+  return {
+    games: games,
+    winsA: games.filter((game) => game.scoreA === 1).length,
+    winsB: games.filter((game) => game.scoreA === 0).length,
+    draws: games.filter((game) => game.scoreA === 0.5).length,
+    scoreA: scoreA,
+    scoreB: games.length - scoreA,
+    eloDifference: estimateEloDifference(scoreA, games.length),
+  };
+}
+
+/**
+ * writes all games of a match as game records separated by blank lines
+ */
+export function serializeMatch(match: MatchResult): string {
+  return match.games.map((game) => game.record).join('\n\n');
+}
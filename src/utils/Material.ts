@@ -0,0 +1,45 @@
+import type {
+  CapturedPieces,
+  MaterialCount,
+  MaterialWeights,
+} from '@/typings/BoardAPI';
+import type { HistoryMove } from '@/typings/Chessboard';
+import type { NichessPosition } from '@/typings/Position';
+
+/**
+ * counts the living pieces and remaining health points of both sides of a position
+ */
+export function countMaterial(
+  position: NichessPosition,
+  weights: MaterialWeights = {}
+): MaterialCount {
+  const count: MaterialCount = {
+    white: { pieces: 0, healthPoints: 0, material: 0 },
+    black: { pieces: 0, healthPoints: 0, material: 0 },
+  };
+  for (const piece of position.squares) {
+    if (piece == null || piece.healthPoints <= 0) continue;
+    const side = count[piece.color];
+    side.pieces++;
+    side.healthPoints += piece.healthPoints;
+    side.material += piece.healthPoints * (weights[piece.role] ?? 1);
+  }
+  return count;
+}
+
+/**
+ * returns the pieces killed in the given history, by the color that killed them
+ */
+export function killedPieces(history: HistoryMove[]): CapturedPieces {
+  const killed: CapturedPieces = { white: [], black: [] };
+  history.forEach((move, index) => {
+    if (!move.targetKilled || move.targetRole == null) return;
+    killed[move.color].push({
+      role: move.targetRole,
+      color: move.color === 'white' ? 'black' : 'white',
+      square: move.to,
+      ply: index + 1,
+    });
+  });
+  return killed;
+}
@@ -0,0 +1,263 @@
+import { squareIndexToKey } from '@/helper/Board';
+import type { NichessRole, PieceColor } from '@/typings/Chessboard';
+import type {
+  NichessPosition,
+  NichessPositionPiece,
+  PositionProblem,
+} from '@/typings/Position';
+import { Api as NichessApi, NUM_SQUARES } from 'nichess';
+import { nichessRoles } from './Roles';
+
+/**
+ * thrown when a position string can't be read
+ */
+export class PositionParseError extends Error {
+  squareIndex?: number; // the square of the malformed token, if the error concerns one square
+
+  constructor(message: string, squareIndex?: number) {
+    super(
+      squareIndex === undefined
+        ? `Invalid position: ${message}`
+        : `Invalid position: square ${squareIndexToKey(
+            squareIndex
+          )} (${squareIndex}) ${message}`
+    );
+    this.name = 'PositionParseError';
+    this.squareIndex = squareIndex;
+  }
+}
+
+function splitPosition(position: string): {
+  turn: PieceColor;
+  tokens: string[];
+} {
+  const separator = position.indexOf('|');
+  if (separator === -1) {
+    throw new PositionParseError('missing "|" after the side to move');
+  }
+
+  const turn = position.slice(0, separator).trim();
+  if (turn !== '0' && turn !== '1') {
+    throw new PositionParseError(`side to move must be 0 or 1, got "${turn}"`);
+  }
+
+  const tokens = position.slice(separator + 1).split(',');
+  // the engine ends the string with a comma
+  if (tokens.at(-1)?.trim() === '') tokens.pop();
+  return { turn: turn === '0' ? 'white' : 'black', tokens };
+}
+
+function parseSquare(
+  token: string,
+  squareIndex: number
+): NichessPositionPiece | null {
+  token = token.trim();
+  if (token === 'empty') return null;
+
+  const match = /^([01])-([a-z]+)-(-?\d+)$/.exec(token);
+  if (match == null) {
+    throw new PositionParseError(
+      `has malformed token "${token}", expected "empty" or "<player>-<piece>-<health points>"`,
+      squareIndex
+    );
+  }
+  if (!nichessRoles.includes(match[2] as NichessRole)) {
+    throw new PositionParseError(
+      `has unknown piece "${match[2]}"`,
+      squareIndex
+    );
+  }
+  return {
+    role: match[2] as NichessRole,
+    color: match[1] === '0' ? 'white' : 'black',
+    healthPoints: parseInt(match[3]),
+  };
+}
+
+function squareCountMessage(count: number): string {
+  return `expected ${NUM_SQUARES} squares, got ${count}`;
+}
+
+/**
+ * reads a position string as produced by the nichess engine, eg. '0|0-warrior-60,0-knight-60,...,empty,...'
+ *
+ * @throws PositionParseError if the string is not a position
+ */
+export function parsePosition(position: string): NichessPosition {
+  const { turn, tokens } = splitPosition(position);
+  if (tokens.length !== NUM_SQUARES) {
+    throw new PositionParseError(squareCountMessage(tokens.length));
+  }
+  return {
+    turn,
+    squares: tokens.map((token, squareIndex) =>
+      parseSquare(token, squareIndex)
+    ),
+  };
+}
+
+/**
+ * writes a position in the string format used by the nichess engine.
+ * serializePosition(parsePosition(s)) returns s for every string produced by the engine.
+ */
+export function serializePosition(position: NichessPosition): string {
+  if (position.squares.length !== NUM_SQUARES) {
+    throw new PositionParseError(squareCountMessage(position.squares.length));
+  }
+  const tokens = position.squares.map((square) =>
+    square == null
+      ? 'empty'
+      : `${square.color === 'white' ? 0 : 1}-${square.role}-${
+          square.healthPoints
+        }`
+  );
+  return `${position.turn === 'white' ? 0 : 1}|${tokens.join(',')},`;
+}
+
+/**
+ * returns the starting position of a new game, as set up by the nichess engine
+ */
+export function startingPosition(): string {
+  const game = new NichessApi();
+  game.reset();
+  return game.boardToString();
+}
+
+let startingHealthPoints: Map<NichessRole, number> | undefined;
+
+/**
+ * returns the health points a piece of the given role starts the game with, which is also the most
+ * health points it can have
+ */
+export function maxHealthPoints(role: NichessRole): number {
+  if (startingHealthPoints === undefined) {
+    startingHealthPoints = new Map();
+    for (const square of parsePosition(startingPosition()).squares) {
+      if (square != null)
+        startingHealthPoints.set(square.role, square.healthPoints);
+    }
+  }
+  return startingHealthPoints.get(role) ?? 0;
+}
+
+/**
+ * thrown by BoardApi.setPosition and BoardApi.loadPgn for positions that don't pass validatePosition
+ */
+export class InvalidPositionError extends Error {
+  problems: PositionProblem[];
+
+  constructor(problems: PositionProblem[]) {
+    super(
+      `Invalid position: ${problems
+        .map((problem) => problem.message)
+        .join('; ')}`
+    );
+    this.name = 'InvalidPositionError';
+    this.problems = problems;
+  }
+}
+
+function validateSquares(position: NichessPosition): PositionProblem[] {
+  const problems: PositionProblem[] = [];
+  if (position.squares.length !== NUM_SQUARES) {
+    return [
+      {
+        code: 'squareCount',
+        message: squareCountMessage(position.squares.length),
+      },
+    ];
+  }
+
+  const kings: Record<PieceColor, number> = { white: 0, black: 0 };
+  position.squares.forEach((piece, squareIndex) => {
+    if (piece == null) return;
+    const square = squareIndexToKey(squareIndex);
+
+    if (piece.role === 'king') kings[piece.color]++;
+
+    const max = maxHealthPoints(piece.role);
+    if (!Number.isInteger(piece.healthPoints) || piece.healthPoints <= 0) {
+      problems.push({
+        code: 'healthPoints',
+        message: `${piece.color} ${piece.role} on ${square} has ${piece.healthPoints} health points, it needs at least 1`,
+        square,
+      });
+    } else if (piece.healthPoints > max) {
+      problems.push({
+        code: 'healthPoints',
+        message: `${piece.color} ${piece.role} on ${square} has ${piece.healthPoints} health points, the maximum is ${max}`,
+        square,
+      });
+    }
+
+    // pawns only move forward, so they can never stand on their own back rank
+    const backRank = piece.color === 'white' ? '1' : '8';
+    if (piece.role === 'pawn' && square[1] === backRank) {
+      problems.push({
+        code: 'pawnRank',
+        message: `${piece.color} pawn on ${square} can't stand on rank ${backRank}`,
+        square,
+      });
+    }
+  });
+
+  for (const color of ['white', 'black'] as PieceColor[]) {
+    if (kings[color] === 0) {
+      problems.push({
+        code: 'missingKing',
+        message: `${color} has no king`,
+        color,
+      });
+    } else if (kings[color] > 1) {
+      problems.push({
+        code: 'duplicateKing',
+        message: `${color} has ${kings[color]} kings`,
+        color,
+      });
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * checks whether a position can be played, eg. before loading it into the board
+ *
+ * @param position - a position string or a position object
+ * @returns the problems found, an empty array for a valid position
+ */
+export function validatePosition(
+  position: string | NichessPosition
+): PositionProblem[] {
+  if (typeof position !== 'string') return validateSquares(position);
+
+  let turn: PieceColor;
+  let tokens: string[];
+  try {
+    ({ turn, tokens } = splitPosition(position));
+  } catch (error) {
+    return [{ code: 'malformed', message: (error as Error).message }];
+  }
+
+  const problems: PositionProblem[] = [];
+  if (tokens.length !== NUM_SQUARES) {
+    problems.push({
+      code: 'squareCount',
+      message: squareCountMessage(tokens.length),
+    });
+  }
+  const squares = tokens.map((token, squareIndex) => {
+    try {
+      return parseSquare(token, squareIndex);
+    } catch (error) {
+      problems.push({
+        code: 'malformed',
+        message: (error as Error).message,
+        square: squareIndexToKey(squareIndex),
+      });
+      return null;
+    }
+  });
+
+  return problems.length > 0 ? problems : validateSquares({ turn, squares });
+}
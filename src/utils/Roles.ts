@@ -0,0 +1,50 @@
+import type { NichessRole, PieceColor } from '@/typings/Chessboard';
+import { PieceType } from 'nichess';
+
+export const nichessRoles: NichessRole[] = [
+  'king',
+  'mage',
+  'warrior',
+  'assassin',
+  'knight',
+  'pawn',
+];
+
+const pieceTypes: Record<NichessRole, Record<PieceColor, PieceType>> = {
+  king: { white: PieceType.P1_KING, black: PieceType.P2_KING },
+  mage: { white: PieceType.P1_MAGE, black: PieceType.P2_MAGE },
+  warrior: { white: PieceType.P1_WARRIOR, black: PieceType.P2_WARRIOR },
+  assassin: { white: PieceType.P1_ASSASSIN, black: PieceType.P2_ASSASSIN },
+  knight: { white: PieceType.P1_KNIGHT, black: PieceType.P2_KNIGHT },
+  pawn: { white: PieceType.P1_PAWN, black: PieceType.P2_PAWN },
+};
+
+/**
+ * returns the nichess PieceType for a role and color, eg. ('mage', 'black') -> PieceType.P2_MAGE
+ */
+export function roleToPieceType(
+  role: NichessRole,
+  color: PieceColor
+): PieceType {
+  return pieceTypes[role][color];
+}
+
+/**
+ * returns the role of a nichess PieceType, eg. PieceType.P2_MAGE -> 'mage', or undefined for PieceType.NO_PIECE
+ */
+export function pieceTypeToRole(pieceType: PieceType): NichessRole | undefined {
+  return nichessRoles.find(
+    (role) =>
+      pieceTypes[role].white === pieceType ||
+      pieceTypes[role].black === pieceType
+  );
+}
+
+/**
+ * returns the color of a nichess PieceType, eg. PieceType.P2_MAGE -> 'black', or undefined for PieceType.NO_PIECE
+ */
+export function pieceTypeToColor(pieceType: PieceType): PieceColor | undefined {
+  const role = pieceTypeToRole(pieceType);
+  if (role === undefined) return undefined;
+  return pieceTypes[role].white === pieceType ? 'white' : 'black';
+}
@@ -0,0 +1,124 @@
+import type {
+  EngineResult,
+  EngineSearchOptions,
+  EngineWorkerRequest,
+  EngineWorkerResponse,
+  EngineWorkerScope,
+  NichessEngine,
+} from '@/typings/Engine';
+
+/**
+ * a NichessEngine running in a Web Worker, so that searching never blocks the UI. The worker has to
+ * answer with serveEngine
+ * @example new WorkerEngine(new Worker(new URL('./engine.worker.ts', import.meta.url), { type: 'module' }))
+ */
+export class WorkerEngine implements NichessEngine {
+  private worker: Worker;
+  private nextId = 0;
+  private pending = new Map<
+    number,
+    {
+      resolve: (response: EngineWorkerResponse) => void;
+      reject: (error: Error) => void;
+    }
+  >();
+
+  constructor(worker: Worker) {
+    this.worker = worker;
+    this.worker.addEventListener(
+      'message',
+      (event: MessageEvent<EngineWorkerResponse>) => {
+        const request = this.pending.get(event.data.id);
+        if (request == null) return;
+        this.pending.delete(event.data.id);
+        if (event.data.type === 'error') {
+          request.reject(new Error(event.data.message));
+        } else {
+          request.resolve(event.data);
+        }
+      }
+    );
+    // a crashed worker never answers, so the pending requests fail
+    this.worker.addEventListener('error', (event: ErrorEvent) =>
+      this.rejectPending(`Engine worker failed: ${event.message}`)
+    );
+    this.worker.addEventListener('messageerror', () =>
+      this.rejectPending('Engine worker sent a message that can not be read')
+    );
+  }
+
+  private rejectPending(message: string): void {
+    const requests = [...this.pending.values()];
+    this.pending.clear();
+    requests.forEach((request) => request.reject(new Error(message)));
+  }
+
+  private request(
+    request:
+      | { type: 'setPosition'; position: string }
+      | { type: 'go'; options?: EngineSearchOptions }
+  ): Promise<EngineWorkerResponse> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.worker.postMessage({ ...request, id } as EngineWorkerRequest);
+    });
+  }
+
+  async setPosition(position: string): Promise<void> {
+    await this.request({ type: 'setPosition', position });
+  }
+
+  async go(options?: EngineSearchOptions): Promise<EngineResult> {
+    const response = await this.request({ type: 'go', options });
+    if (response.type !== 'result') {
+      throw new Error(`Unexpected engine response: ${response.type}`);
+    }
+    return response.result;
+  }
+
+  stop(): void {
+    this.worker.postMessage({ type: 'stop' } as EngineWorkerRequest);
+  }
+
+  /**
+   * stops the worker, pending requests are rejected
+   */
+  terminate(): void {
+    this.worker.terminate();
+    this.rejectPending('Engine worker terminated');
+  }
+}
+
+/**
+ * answers the requests of a WorkerEngine with the given engine, call it in the worker's script.
+ * A stop only reaches an engine that yields to the event loop while searching
+ * @example serveEngine(new MyEngine())
+ */
+export function serveEngine(
+  engine: NichessEngine,
+  scope: EngineWorkerScope = globalThis as unknown as EngineWorkerScope
+): void {
+  scope.addEventListener('message', async (event) => {
+    const request = event.data;
+    if (request.type === 'stop') {
+      engine.stop();
+      return;
+    }
+    try {
+      if (request.type === 'setPosition') {
+        await engine.setPosition(request.position);
+        scope.postMessage({ id: request.id, type: 'ready' });
+      } else {
+        const result = await engine.go(request.options);
+        scope.postMessage({ id: request.id, type: 'result', result });
+      }
+    } catch (error) {
+      scope.postMessage({
+        id: request.id,
+        type: 'error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  });
+}